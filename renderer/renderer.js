@@ -1,16 +1,252 @@
-const { ipcRenderer } = require('electron');
+// Narrow API exposed by the preload script (src/preload.ts)
+const api = window.volumeBot;
+
+// Buttons name their handler in data-action; the Content-Security-Policy
+// forbids inline onclick attributes
+const actions = {
+    createKeystore,
+    unlockKeystore,
+    lockKeystore,
+    switchTab: (button) => switchTab(button.dataset.tab),
+    importMainWallet,
+    saveConfig,
+    startBot,
+    stopBot,
+    refreshWallets,
+    planRecovery,
+    startRecovery,
+    refreshBackups,
+    verifyBackups,
+    chooseBackupDirectory,
+    saveSettings
+};
+
+document.addEventListener('click', function(event) {
+    const button = event.target.closest('[data-action]');
+    if (button && Object.prototype.hasOwnProperty.call(actions, button.dataset.action)) {
+        actions[button.dataset.action](button);
+    }
+});
 
 // Initialize when page loads
 document.addEventListener('DOMContentLoaded', function() {
     loadConfig();
     switchTab('trading'); // Start with trading tab active
     updateBotStatusFromServer(); // Check current bot status
+    updateKeystoreStatus();
 });
 
+// Keystore functions
+async function updateKeystoreStatus() {
+    try {
+        const status = await api.getKeystoreStatus();
+        setKeystoreStatus(status.unlocked);
+        showKeystoreCreation(!status.exists);
+        if (status.unlocked) {
+            refreshMainWalletOptions();
+        }
+    } catch (error) {
+        console.error('Error getting keystore status:', error);
+    }
+}
+
+function setKeystoreStatus(unlocked) {
+    const statusElement = document.getElementById('keystoreStatus');
+    if (!statusElement) return;
+
+    statusElement.textContent = unlocked ? '🔓 Unlocked' : '🔒 Locked';
+    statusElement.className = unlocked ? 'text-sm text-green-400' : 'text-sm text-red-400';
+}
+
+// Without a keystore the passphrase has to be typed twice to create one
+function showKeystoreCreation(show) {
+    document.getElementById('keystorePassphraseConfirm').classList.toggle('hidden', !show);
+    document.getElementById('createKeystoreButton').classList.toggle('hidden', !show);
+    document.getElementById('unlockKeystoreButton').classList.toggle('hidden', show);
+}
+
+async function createKeystore() {
+    const passphraseInput = document.getElementById('keystorePassphrase');
+    const confirmInput = document.getElementById('keystorePassphraseConfirm');
+
+    if (!passphraseInput.value || !confirmInput.value) {
+        alert('Enter the new keystore passphrase twice.');
+        return;
+    }
+    if (passphraseInput.value !== confirmInput.value) {
+        alert('The passphrases do not match.');
+        return;
+    }
+
+    try {
+        const result = await api.createKeystore(passphraseInput.value, confirmInput.value);
+        passphraseInput.value = '';
+        confirmInput.value = '';
+
+        if (result.success) {
+            setKeystoreStatus(true);
+            showKeystoreCreation(false);
+            addLog('Keystore created', 'success');
+            addLog('Plaintext backups from older versions are encrypted the next time you unlock with this passphrase', 'info');
+            refreshMainWalletOptions();
+            checkLegacyBackups();
+        } else {
+            addLog(`Failed to create keystore: ${result.error}`, 'error');
+        }
+    } catch (error) {
+        addLog(`Error creating keystore: ${error.message}`, 'error');
+    }
+}
+
+async function unlockKeystore() {
+    const passphraseInput = document.getElementById('keystorePassphrase');
+    const passphrase = passphraseInput.value;
+
+    if (!passphrase) {
+        alert('Keystore passphrase is required.');
+        return;
+    }
+
+    try {
+        const result = await api.unlockKeystore(passphrase);
+        passphraseInput.value = '';
+
+        if (result.success) {
+            setKeystoreStatus(true);
+            addLog('Keystore unlocked', 'success');
+            if (result.migratedFiles && result.migratedFiles.length > 0) {
+                addLog(`Encrypted ${result.migratedFiles.length} plaintext backup file(s)`, 'success');
+            }
+            refreshMainWalletOptions();
+            checkLegacyBackups();
+        } else {
+            setKeystoreStatus(false);
+            addLog(`Failed to unlock keystore: ${result.error}`, 'error');
+        }
+    } catch (error) {
+        addLog(`Error unlocking keystore: ${error.message}`, 'error');
+    }
+}
+
+// Settings functions
+async function loadSettings() {
+    try {
+        const result = await api.getSettings();
+        document.getElementById('settingsCluster').value = result.settings.cluster;
+        document.getElementById('settingsBackupDirectory').value = result.settings.backupDirectory;
+        showSettingsStatus(result.settings, result.active);
+    } catch (error) {
+        addLog(`Error loading settings: ${error.message}`, 'error');
+    }
+}
+
+function showSettingsStatus(settings, active) {
+    const statusElement = document.getElementById('settingsStatus');
+    const pending = settings.cluster !== active.cluster || settings.backupDirectory !== active.backupDirectory;
+    const directoryPending = settings.backupDirectory !== active.backupDirectory;
+    statusElement.textContent = directoryPending
+        ? `Restart required - wallet operations are paused until the app uses the backups in ${settings.backupDirectory}`
+        : pending
+            ? `Restart required - currently using ${active.cluster} with backups in ${active.backupDirectory}`
+            : `Using ${active.cluster}`;
+    statusElement.className = pending ? 'text-sm text-yellow-400' : 'text-sm text-indigo-300';
+}
+
+async function chooseBackupDirectory() {
+    try {
+        const result = await api.chooseBackupDirectory();
+        if (result.success && result.directory) {
+            document.getElementById('settingsBackupDirectory').value = result.directory;
+        }
+    } catch (error) {
+        addLog(`Error choosing backup directory: ${error.message}`, 'error');
+    }
+}
+
+async function saveSettings() {
+    try {
+        const result = await api.updateSettings({
+            cluster: document.getElementById('settingsCluster').value,
+            backupDirectory: document.getElementById('settingsBackupDirectory').value
+        });
+
+        if (!result.success) {
+            addLog(`Failed to save settings: ${result.error}`, 'error');
+            return;
+        }
+
+        addLog('Settings saved', 'success');
+        const { active } = await api.getSettings();
+        showSettingsStatus(result.settings, active);
+        if (result.restartRequired && confirm('Settings are applied after a restart. Restart now?')) {
+            await api.restartApp();
+        }
+    } catch (error) {
+        addLog(`Error saving settings: ${error.message}`, 'error');
+    }
+}
+
+// Offer to import backups from folders older versions wrote next to the app
+async function checkLegacyBackups() {
+    try {
+        const result = await api.findLegacyBackups();
+        if (!result.success) return;
+
+        for (const location of result.locations) {
+            const question = `Found ${location.backupFiles} wallet backup file(s) from an older version in:\n${location.directory}\n\n` +
+                'Import them into the current backup directory? The original files are kept.';
+
+            if (!confirm(question)) {
+                await api.dismissLegacyBackups(location.directory);
+                addLog(`Skipped legacy backups in ${location.directory}`, 'info');
+                continue;
+            }
+
+            const imported = await api.importLegacyBackups(location.directory);
+            if (!imported.success) {
+                addLog(`Failed to import backups from ${location.directory}: ${imported.error}`, 'error');
+                continue;
+            }
+            addLog(`Imported ${imported.imported.length} backup file(s) from ${location.directory}`, 'success');
+            imported.skipped.forEach(file => addLog(`Not imported ${file.filename}: ${file.reason}`, 'error'));
+            if (imported.skipped.length > 0) {
+                addLog(`${imported.skipped.length} file(s) left in ${location.directory}; the import is offered again after the next unlock`, 'info');
+            }
+            refreshMainWalletOptions();
+
+            if (imported.plaintextOriginals.length > 0) {
+                await offerPlaintextWipe(location.directory, imported.plaintextOriginals.length);
+            }
+        }
+    } catch (error) {
+        addLog(`Error checking for legacy backups: ${error.message}`, 'error');
+    }
+}
+
+// Imported plaintext originals still hold unencrypted private keys
+async function offerPlaintextWipe(directory, count) {
+    const question = `${count} imported backup file(s) in:\n${directory}\n\n` +
+        'still contain unencrypted private keys. Overwrite and delete them now? ' +
+        'The imported copies in the current backup directory are kept.';
+
+    if (!confirm(question)) {
+        addLog(`Plaintext backups left in ${directory} - delete them manually`, 'error');
+        return;
+    }
+
+    const result = await api.wipeLegacyPlaintext(directory);
+    if (!result.success) {
+        addLog(`Failed to delete plaintext backups in ${directory}: ${result.error}`, 'error');
+        return;
+    }
+    addLog(`Securely deleted ${result.wiped.length} plaintext backup file(s) in ${directory}`, 'success');
+    result.kept.forEach(filename => addLog(`Kept ${filename}: its imported copy could not be verified`, 'error'));
+}
+
 // Get bot status from server
 async function updateBotStatusFromServer() {
     try {
-        const status = await ipcRenderer.invoke('get-bot-status');
+        const status = await api.getBotStatus();
         if (status.isRunning) {
             updateButtonStates(true);
             startStatsPolling();
@@ -47,7 +283,7 @@ function switchTab(tabName) {
     }
     
     // Activate selected button
-    const selectedButton = document.querySelector(`button[onclick="switchTab('${tabName}')"]`);
+    const selectedButton = document.querySelector(`button[data-tab="${tabName}"]`);
     if (selectedButton) {
         selectedButton.classList.add('active', 'border-white');
         selectedButton.classList.remove('border-transparent');
@@ -58,6 +294,85 @@ function switchTab(tabName) {
         refreshWallets();
     } else if (tabName === 'backups') {
         refreshBackups();
+    } else if (tabName === 'settings') {
+        loadSettings();
+    }
+}
+
+async function lockKeystore() {
+    try {
+        const result = await api.lockKeystore();
+        if (result.success) {
+            setKeystoreStatus(false);
+            addLog('Keystore locked', 'success');
+        } else {
+            addLog(`Failed to lock keystore: ${result.error}`, 'error');
+        }
+    } catch (error) {
+        addLog(`Error locking keystore: ${error.message}`, 'error');
+    }
+}
+
+// Main wallet functions
+async function refreshMainWalletOptions() {
+    try {
+        const wallets = await api.getAllWallets();
+        const saved = JSON.parse(localStorage.getItem('volumeBotConfig') || '{}');
+
+        ['mainWalletId', 'recoveryMainWalletId'].forEach(id => {
+            const select = document.getElementById(id);
+            if (!select) return;
+
+            select.innerHTML = '';
+            const mainWallets = (wallets && wallets.mainWallets) || [];
+            if (mainWallets.length === 0) {
+                const option = document.createElement('option');
+                option.value = '';
+                option.textContent = 'No main wallet in keystore - import one';
+                select.appendChild(option);
+                return;
+            }
+
+            mainWallets.forEach(wallet => {
+                const option = document.createElement('option');
+                option.value = wallet.publicKey;
+                option.textContent = wallet.publicKey;
+                select.appendChild(option);
+            });
+
+            if (saved.mainWalletId && mainWallets.some(wallet => wallet.publicKey === saved.mainWalletId)) {
+                select.value = saved.mainWalletId;
+            }
+        });
+    } catch (error) {
+        console.error('Error loading main wallets:', error);
+    }
+}
+
+async function importMainWallet() {
+    const keyInput = document.getElementById('importMainWalletKey');
+    const privateKey = keyInput.value;
+
+    if (!privateKey) {
+        alert('Main wallet private key is required.');
+        return;
+    }
+
+    try {
+        const result = await api.importMainWallet(privateKey);
+        keyInput.value = '';
+
+        if (result.success) {
+            addLog(`Main wallet ${result.walletId} stored in keystore`, 'success');
+            await refreshMainWalletOptions();
+            document.getElementById('mainWalletId').value = result.walletId;
+            document.getElementById('recoveryMainWalletId').value = result.walletId;
+            saveConfig();
+        } else {
+            addLog(`Failed to import main wallet: ${result.error}`, 'error');
+        }
+    } catch (error) {
+        addLog(`Error importing main wallet: ${error.message}`, 'error');
     }
 }
 
@@ -65,7 +380,7 @@ function switchTab(tabName) {
 function saveConfig() {
     const config = {
         tokenAddress: document.getElementById('tokenAddress').value,
-        mainWalletPrivateKey: document.getElementById('mainWalletKey').value,
+        mainWalletId: document.getElementById('mainWalletId').value,
         numberOfSubWallets: parseInt(document.getElementById('subWalletCount').value),
         buyAmount: parseFloat(document.getElementById('buyAmount').value),
         sessionDuration: 999, // Fixed for continuous trading
@@ -74,7 +389,6 @@ function saveConfig() {
     };
     
     localStorage.setItem('volumeBotConfig', JSON.stringify(config));
-    document.getElementById('recoveryMainWalletKey').value = config.mainWalletPrivateKey;
     addLog('Configuration saved successfully', 'success');
 }
 
@@ -83,14 +397,19 @@ function loadConfig() {
     if (saved) {
         try {
             const config = JSON.parse(saved);
+
+            // Older versions stored the raw private key here - drop it
+            if (config.mainWalletPrivateKey) {
+                delete config.mainWalletPrivateKey;
+                localStorage.setItem('volumeBotConfig', JSON.stringify(config));
+            }
+
             document.getElementById('tokenAddress').value = config.tokenAddress || '';
-            document.getElementById('mainWalletKey').value = config.mainWalletPrivateKey || '';
             document.getElementById('subWalletCount').value = config.numberOfSubWallets || '';
             document.getElementById('buyAmount').value = config.buyAmount || '0.005';
             // cycleInterval wird nicht mehr geladen - kontinuierliches Trading
             // sessionDuration wird nicht mehr geladen - kontinuierliches Trading
             document.getElementById('licenseKey').value = config.licenseKey || '';
-            document.getElementById('recoveryMainWalletKey').value = config.mainWalletPrivateKey || '';
             
             // Validate license if present
             if (config.licenseKey) {
@@ -106,7 +425,7 @@ function loadConfig() {
 async function startBot() {
     const config = {
         tokenAddress: document.getElementById('tokenAddress').value,
-        mainWalletPrivateKey: document.getElementById('mainWalletKey').value,
+        mainWalletId: document.getElementById('mainWalletId').value,
         numberOfSubWallets: parseInt(document.getElementById('subWalletCount').value),
         buyAmount: parseFloat(document.getElementById('buyAmount').value),
         sessionDuration: 999, // Fixed value for continuous trading
@@ -114,13 +433,13 @@ async function startBot() {
         // cycleInterval entfernt - kontinuierliches Trading
     };
 
-    if (!config.tokenAddress || !config.mainWalletPrivateKey || !config.licenseKey) {
+    if (!config.tokenAddress || !config.mainWalletId || !config.licenseKey) {
         alert('Please fill in all required fields including the license key.');
         return;
     }
 
     try {
-        const result = await ipcRenderer.invoke('start-bot', config);
+        const result = await api.startBot(config);
         if (result.success) {
             addLog('Trading bot started successfully', 'success');
             updateButtonStates(true);
@@ -135,7 +454,7 @@ async function startBot() {
 
 async function stopBot() {
     try {
-        const result = await ipcRenderer.invoke('stop-bot');
+        const result = await api.stopBot();
         if (result.success) {
             addLog('Trading bot stopped successfully', 'success');
             updateButtonStates(false);
@@ -177,7 +496,7 @@ function startStatsPolling() {
     // Update stats every 5 seconds
     statsInterval = setInterval(async () => {
         try {
-            const stats = await ipcRenderer.invoke('get-bot-stats');
+            const stats = await api.getBotStats();
             updateStatsDisplay(stats);
         } catch (error) {
             console.error('Error fetching stats:', error);
@@ -197,7 +516,7 @@ function stopStatsPolling() {
 
 async function updateStatsImmediate() {
     try {
-        const stats = await ipcRenderer.invoke('get-bot-stats');
+        const stats = await api.getBotStats();
         updateStatsDisplay(stats);
     } catch (error) {
         console.error('Error fetching immediate stats:', error);
@@ -224,10 +543,10 @@ function updateStatsDisplay(stats) {
 
 // Recovery function
 async function startRecovery() {
-    const mainWalletKey = document.getElementById('recoveryMainWalletKey').value;
+    const mainWalletId = document.getElementById('recoveryMainWalletId').value;
     
-    if (!mainWalletKey) {
-        alert('Main wallet private key is required.');
+    if (!mainWalletId) {
+        alert('Select a main wallet from the keystore first.');
         return;
     }
 
@@ -237,10 +556,19 @@ async function startRecovery() {
 
     try {
         const tokenAddress = document.getElementById('tokenAddress').value;
-        const result = await ipcRenderer.invoke('recover-all-funds', mainWalletKey, tokenAddress);
+        const result = await api.recoverAllFunds(mainWalletId, tokenAddress);
         
         if (result.success) {
-            addRecoveryLog(`Recovery completed: ${result.recoveredAmount?.toFixed(6)} SOL recovered`);
+            if (result.resumed) {
+                addRecoveryLog(`Resumed interrupted run ${result.runId}`);
+            }
+            addRecoveryLog(`Recovery completed: ${result.recoveredAmount?.toFixed(6)} SOL recovered, ${result.rentReclaimed?.toFixed(6)} SOL of token account rent reclaimed`);
+            if (result.retiredWallets && result.retiredWallets.length > 0) {
+                addRecoveryLog(`${result.retiredWallets.length} emptied sub-wallet(s) marked as retired`);
+            }
+            if (result.pendingWallets && result.pendingWallets.length > 0) {
+                addRecoveryLog(`${result.pendingWallets.length} wallet(s) have unconfirmed transactions - run recovery again to resume`);
+            }
             refreshWallets();
         } else {
             addRecoveryLog(`Recovery failed: ${result.error}`);
@@ -250,14 +578,56 @@ async function startRecovery() {
     }
 }
 
+async function planRecovery() {
+    const mainWalletId = document.getElementById('recoveryMainWalletId').value;
+
+    if (!mainWalletId) {
+        alert('Select a main wallet from the keystore first.');
+        return;
+    }
+
+    try {
+        const tokenAddress = document.getElementById('tokenAddress').value;
+        const plan = await api.planRecovery(mainWalletId, tokenAddress);
+
+        if (plan.success === false) {
+            addRecoveryLog(`Dry run failed: ${plan.error}`);
+            return;
+        }
+
+        addRecoveryLog(`DRY RUN - nothing will be sent${plan.resumesRun ? ` (resumes run ${plan.resumesRun})` : ''}`);
+        plan.wallets.forEach(wallet => {
+            const tokens = wallet.tokens.map(token => `${token.amount} of ${token.mint.substring(0, 8)}... (${token.action})`).join(', ');
+            addRecoveryLog(
+                `${wallet.publicKey.substring(0, 8)}... [${wallet.status}] ` +
+                `balance ${wallet.solBalance.toFixed(6)} SOL, move ${wallet.solToMove.toFixed(6)} SOL, ` +
+                `rent reclaimed ${wallet.rentReclaimed.toFixed(6)} SOL, ` +
+                `fees ~${wallet.estimatedFees.toFixed(6)} SOL, rent left ${wallet.rentLeftBehind.toFixed(6)} SOL` +
+                (tokens ? `, tokens: ${tokens}` : '') +
+                (wallet.note ? ` - ${wallet.note}` : '')
+            );
+        });
+        addRecoveryLog(
+            `TOTAL: ${plan.totals.walletsToRecover} wallet(s), move ${plan.totals.solToMove.toFixed(6)} SOL, ` +
+            `rent reclaimed ${plan.totals.rentReclaimed.toFixed(6)} SOL, ` +
+            `fees ~${plan.totals.estimatedFees.toFixed(6)} SOL, rent left ${plan.totals.rentLeftBehind.toFixed(6)} SOL`
+        );
+        if (plan.mainWalletBalance < plan.totals.estimatedFees) {
+            addRecoveryLog(`Main wallet balance ${plan.mainWalletBalance.toFixed(6)} SOL does not cover the estimated fees`);
+        }
+    } catch (error) {
+        addRecoveryLog(`Dry run error: ${error.message}`);
+    }
+}
+
 // Wallet functions
 async function refreshWallets() {
     try {
-        const wallets = await ipcRenderer.invoke('get-all-wallets');
+        const wallets = await api.getAllWallets();
         
         // Get live balances
         try {
-            const balances = await ipcRenderer.invoke('get-wallet-balances');
+            const balances = await api.getWalletBalances();
             // Update wallet objects with live balances
             if (balances && balances.wallets) {
                 wallets.mainWallets.forEach(wallet => {
@@ -321,7 +691,7 @@ function displayWallets(wallets) {
             walletDiv.className = 'bg-gray-500/20 p-3 rounded border border-gray-500/30';
             walletDiv.innerHTML = `
                 <div class="flex justify-between items-center">
-                    <span class="font-mono text-sm text-indigo-200">${wallet.publicKey.substring(0, 8)}...${wallet.publicKey.substring(-8)}</span>
+                    <span class="font-mono text-sm text-indigo-200">${wallet.publicKey.substring(0, 8)}...${wallet.publicKey.substring(-8)}${wallet.retiredAt ? ' <span class="text-xs text-gray-400">(retired)</span>' : ''}</span>
                     <span class="font-semibold text-green-400">${(wallet.balance || 0).toFixed(6)} SOL</span>
                 </div>
             `;
@@ -341,13 +711,102 @@ function displayWallets(wallets) {
 // Backup functions
 async function refreshBackups() {
     try {
-        const backups = await ipcRenderer.invoke('get-backup-files');
-        displayBackups(backups);
+        const result = await api.getBackupFiles();
+        if (result && result.success === false) {
+            addLog(`Failed to load backups: ${result.error}`, 'error');
+            return;
+        }
+        displayUnreadableBackups(result.unreadable);
+        displayBackups(result.files);
     } catch (error) {
         console.error('Error refreshing backups:', error);
     }
 }
 
+function displayUnreadableBackups(unreadable) {
+    const container = document.getElementById('unreadableBackups');
+    if (!container) return;
+
+    container.innerHTML = '';
+    if (!unreadable || unreadable.length === 0) return;
+
+    const header = document.createElement('div');
+    header.className = 'bg-red-900/60 border border-red-500 rounded-lg p-4 text-red-200 font-semibold';
+    header.textContent = `⚠️ ${unreadable.length} backup file(s) could not be read - their wallets are NOT included anywhere in the app`;
+    container.appendChild(header);
+
+    unreadable.forEach(file => {
+        const fileDiv = document.createElement('div');
+        fileDiv.className = 'bg-red-900/40 border border-red-500/60 rounded p-3';
+
+        const name = document.createElement('div');
+        name.className = 'font-mono text-sm text-red-200';
+        name.textContent = file.quarantined ? `${file.filename} (quarantined)` : file.filename;
+
+        const error = document.createElement('div');
+        error.className = 'text-xs text-red-300 mt-1';
+        error.textContent = file.error;
+
+        fileDiv.appendChild(name);
+        fileDiv.appendChild(error);
+        container.appendChild(fileDiv);
+    });
+}
+
+async function verifyBackups() {
+    const container = document.getElementById('backupVerification');
+    if (!container) return;
+
+    container.innerHTML = '<div class="text-indigo-300 text-sm">Verifying backups...</div>';
+
+    try {
+        const report = await api.verifyBackups();
+        container.innerHTML = '';
+
+        if (report && report.success === false) {
+            container.innerHTML = '<div class="text-red-400 text-sm"></div>';
+            container.firstChild.textContent = `Verification failed: ${report.error}`;
+            return;
+        }
+
+        const summary = document.createElement('div');
+        const failed = report.results.filter(result => result.status !== 'ok');
+        summary.className = report.ok
+            ? 'bg-green-900/40 border border-green-500/60 rounded p-3 text-green-300 text-sm'
+            : 'bg-red-900/60 border border-red-500 rounded p-3 text-red-200 text-sm font-semibold';
+        summary.textContent = report.ok
+            ? `✅ All ${report.results.length} backup file(s) verified`
+            : `❌ ${failed.length} of ${report.results.length} backup file(s) failed verification`;
+        container.appendChild(summary);
+
+        report.results
+            .filter(result => result.status !== 'ok' || result.warnings.length > 0)
+            .forEach(result => {
+                const resultDiv = document.createElement('div');
+                resultDiv.className = result.status === 'ok'
+                    ? 'bg-yellow-900/30 border border-yellow-600/50 rounded p-3'
+                    : 'bg-red-900/40 border border-red-500/60 rounded p-3';
+
+                const name = document.createElement('div');
+                name.className = 'font-mono text-sm text-indigo-200';
+                name.textContent = `${result.filename} - ${result.status.toUpperCase()}`;
+                resultDiv.appendChild(name);
+
+                [...result.issues, ...result.warnings].forEach(message => {
+                    const line = document.createElement('div');
+                    line.className = 'text-xs text-gray-300 mt-1';
+                    line.textContent = message;
+                    resultDiv.appendChild(line);
+                });
+
+                container.appendChild(resultDiv);
+            });
+    } catch (error) {
+        container.innerHTML = '';
+        addLog(`Error verifying backups: ${error.message}`, 'error');
+    }
+}
+
 function displayBackups(backups) {
     const backupsList = document.getElementById('backupsList');
     if (!backupsList) return;
@@ -407,11 +866,11 @@ function addRecoveryLog(message) {
 }
 
 // IPC listeners for real-time updates
-ipcRenderer.on('log-entry', (event, data) => {
-    addLog(data.message, data.level);
+api.onBotLog((log) => {
+    addLog(log.message, log.level);
 });
 
-ipcRenderer.on('stats-update', (event, stats) => {
+api.onStatsUpdate((stats) => {
     if (document.getElementById('cyclesCompleted')) {
         document.getElementById('cyclesCompleted').textContent = stats.cyclesCompleted || 0;
         document.getElementById('totalVolume').textContent = (stats.totalVolume || 0).toFixed(4);
@@ -422,7 +881,7 @@ ipcRenderer.on('stats-update', (event, stats) => {
 
 // Auto-save config on changes
 document.addEventListener('DOMContentLoaded', function() {
-    const configFields = ['tokenAddress', 'mainWalletKey', 'subWalletCount', 'buyAmount', 'licenseKey'];
+    const configFields = ['tokenAddress', 'mainWalletId', 'subWalletCount', 'buyAmount', 'licenseKey'];
     configFields.forEach(id => {
         const element = document.getElementById(id);
         if (element) {
@@ -454,7 +913,7 @@ async function validateLicenseUI(licenseKey) {
     }
     
     try {
-        const validation = await ipcRenderer.invoke('validate-license', licenseKey);
+        const validation = await api.validateLicense(licenseKey);
         
         if (validation.valid) {
             statusElement.innerHTML = `<span class="text-green-400">✅ Valid until ${validation.expiresAt} (${validation.remainingTime} left)</span>`;
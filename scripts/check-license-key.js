@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+/**
+ * Release gate: a build without the vendor's license public key would
+ * reject every license, so packaging stops here instead of shipping it.
+ */
+const { LicenseManager } = require('../dist/services/LicenseManager');
+
+if (!LicenseManager.hasPublicKey()) {
+  console.error(`✗ ${LicenseManager.PUBLIC_KEY_PATH} is missing - this build could not accept any license.`);
+  console.error('  Put the vendor\'s license-public-key.pem there, or run "node scripts/license-generator.js keygen" for a new key pair.');
+  process.exit(1);
+}
+
+console.log('✓ License verification key present');
@@ -0,0 +1,111 @@
+#!/usr/bin/env node
+/**
+ * License key generator for Volume Bot.
+ *
+ * Keys are signed with an Ed25519 private key that stays with the vendor.
+ * The app only ships the matching public key (license-public-key.pem in the
+ * project root), so this script contains no secrets and the private key file
+ * must never be committed or shipped.
+ *
+ * Private key location: $VB_LICENSE_PRIVATE_KEY or ./license-private-key.pem
+ */
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const PRIVATE_KEY_PATH = process.env.VB_LICENSE_PRIVATE_KEY || path.join(process.cwd(), 'license-private-key.pem');
+const PUBLIC_KEY_PATH = path.join(__dirname, '..', 'license-public-key.pem');
+const VALIDITY_MS = 24 * 60 * 60 * 1000;
+
+function loadPrivateKey() {
+  if (!fs.existsSync(PRIVATE_KEY_PATH)) {
+    throw new Error(`Private key not found at ${PRIVATE_KEY_PATH}. Run "node scripts/license-generator.js keygen" first.`);
+  }
+  return crypto.createPrivateKey(fs.readFileSync(PRIVATE_KEY_PATH, 'utf-8'));
+}
+
+function loadLicenseManager() {
+  try {
+    return require('../dist/services/LicenseManager').LicenseManager;
+  } catch {
+    throw new Error('LicenseManager not built. Run "npm run build" first.');
+  }
+}
+
+function keygen() {
+  for (const keyPath of [PRIVATE_KEY_PATH, PUBLIC_KEY_PATH]) {
+    if (fs.existsSync(keyPath)) {
+      throw new Error(`${keyPath} already exists. Replacing it invalidates every issued key; delete it manually if that is intended.`);
+    }
+  }
+
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  fs.writeFileSync(PRIVATE_KEY_PATH, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600, flag: 'wx' });
+  fs.writeFileSync(PUBLIC_KEY_PATH, publicKey.export({ type: 'spki', format: 'pem' }), { flag: 'wx' });
+
+  console.log(`✓ Private key written to ${PRIVATE_KEY_PATH}`);
+  console.log('  Keep it offline and never commit or distribute it.');
+  console.log(`✓ Public key written to ${PUBLIC_KEY_PATH}`);
+  console.log('  The app reads it on start and release builds package it.');
+}
+
+function generate(user) {
+  const issued = Date.now();
+  const payload = { exp: issued + VALIDITY_MS, user, issued };
+  const payloadB64 = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = crypto.sign(null, Buffer.from(payloadB64), loadPrivateKey()).toString('base64url');
+  return `VB-${payloadB64}.${signature}`;
+}
+
+function printValidation(licenseKey) {
+  const result = loadLicenseManager().validateLicenseKey(licenseKey);
+  console.log(`🔍 Validation Result: ${result.valid ? '✅ VALID' : '❌ INVALID'}`);
+  if (result.valid) {
+    console.log(`⏰ Expires: ${result.expiresAt.toLocaleString()}`);
+    console.log(`🕒 Remaining: ${result.remainingTime}`);
+    console.log(`👤 User: ${result.payload.user}`);
+  } else {
+    console.log(`❌ Error: ${result.error}`);
+  }
+}
+
+function main() {
+  const [command, arg] = process.argv.slice(2);
+
+  switch (command) {
+    case 'keygen':
+      keygen();
+      break;
+    case 'validate':
+      if (!arg) throw new Error('Usage: node scripts/license-generator.js validate <key>');
+      printValidation(arg);
+      break;
+    case 'user':
+      if (!arg) throw new Error('Usage: node scripts/license-generator.js user <name>');
+      console.log(`🔑 License Key for user "${arg}":`);
+      console.log(`📋 ${generate(arg)}`);
+      break;
+    case undefined: {
+      console.log('🔑 License Key Generator for Volume Bot\n');
+      const licenseKey = generate('user');
+      console.log('Generated License Key:');
+      console.log(`📋 ${licenseKey}\n`);
+      printValidation(licenseKey);
+      console.log('\n💡 Usage:');
+      console.log('  node scripts/license-generator.js                 - Generate new key');
+      console.log('  node scripts/license-generator.js user <name>     - Generate key for specific user');
+      console.log('  node scripts/license-generator.js validate <key>  - Validate existing key');
+      console.log('  node scripts/license-generator.js keygen          - Create a new signing key pair');
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}"`);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`✗ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
@@ -1,19 +1,42 @@
 import { app, BrowserWindow, ipcMain, dialog } from 'electron';
 import * as path from 'path';
+import { Connection } from '@solana/web3.js';
 import { WalletManager } from './services/WalletManager';
 import { TradingBot } from './services/TradingBot';
 import { BackupManager } from './services/BackupManager';
 import { LicenseManager } from './services/LicenseManager';
+import { IpcValidator } from './services/IpcValidator';
+import { Keystore } from './services/Keystore';
+import { SettingsManager, AppSettings } from './services/SettingsManager';
 
 class MainProcess {
   private mainWindow: BrowserWindow | null = null;
   private walletManager: WalletManager;
   private tradingBot: TradingBot;
   private backupManager: BackupManager;
+  private settingsManager: SettingsManager;
+  // Settings the services were started with; changes apply after a restart
+  private activeSettings: AppSettings;
+  // Plaintext originals per legacy directory that may be wiped after their import
+  private importedPlaintextOriginals: Map<string, string[]> = new Map();
+  // Main wallets the renderer imported; sweeping funds into one needs a native confirmation
+  private walletsImportedThisSession: Set<string> = new Set();
+  // Last directory picked in the native dialog; the only new backup directory the renderer may save
+  private chosenBackupDirectory: string | null = null;
 
   constructor() {
-    this.backupManager = new BackupManager();
-    this.walletManager = new WalletManager(this.backupManager);
+    this.settingsManager = new SettingsManager(app.getPath('userData'));
+    this.activeSettings = this.settingsManager.getSettings();
+    console.log(`Using ${this.activeSettings.cluster} cluster, backups in ${this.activeSettings.backupDirectory}`);
+    if (!LicenseManager.hasPublicKey()) {
+      console.error('✗ No license verification key in this build - every license will be rejected');
+    }
+
+    this.backupManager = new BackupManager(new Keystore(), this.activeSettings.backupDirectory);
+    this.walletManager = new WalletManager(
+      this.backupManager,
+      new Connection(this.settingsManager.getRpcUrl(), 'confirmed')
+    );
     this.tradingBot = new TradingBot(this.walletManager, this.backupManager);
     
     this.setupEventHandlers();
@@ -24,6 +47,10 @@ class MainProcess {
       this.createWindow();
     });
 
+    app.on('before-quit', () => {
+      this.backupManager.lock();
+    });
+
     app.on('window-all-closed', () => {
       if (process.platform !== 'darwin') {
         app.quit();
@@ -44,13 +71,19 @@ class MainProcess {
       width: 1200,
       height: 800,
       webPreferences: {
-        nodeIntegration: true,
-        contextIsolation: false
+        preload: path.join(__dirname, 'preload.js'),
+        nodeIntegration: false,
+        contextIsolation: true,
+        sandbox: true
       },
       icon: path.join(__dirname, 'assets/trading_sphere-01.webp'),
       title: 'TradeSphere Volume Bot'
     });
 
+    // The renderer never needs to leave the bundled UI or open new windows
+    this.mainWindow.webContents.setWindowOpenHandler(() => ({ action: 'deny' }));
+    this.mainWindow.webContents.on('will-navigate', (event) => event.preventDefault());
+
     this.mainWindow.loadFile(path.join(__dirname, '../renderer/index.html'));
 
     // Only open DevTools if explicitly requested with --inspect flag
@@ -60,10 +93,71 @@ class MainProcess {
   }
 
   private setupIpcHandlers(): void {
+    // Keystore operations
+    ipcMain.handle('unlock-keystore', async (_event, passphrase: unknown) => {
+      try {
+        await this.backupManager.unlock(IpcValidator.requireString(passphrase, 'Passphrase', 1024));
+        // One-time migration of plaintext backups written by older versions
+        const migratedFiles = await this.backupManager.migratePlaintextBackups();
+        return { success: true, migratedFiles };
+      } catch (error) {
+        console.error('Error unlocking keystore:', error instanceof Error ? error.message : error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: errorMessage };
+      }
+    });
+
+    ipcMain.handle('create-keystore', async (_event, passphrase: unknown, confirmation: unknown) => {
+      try {
+        await this.backupManager.createKeystore(
+          IpcValidator.requireString(passphrase, 'Passphrase', 1024),
+          IpcValidator.requireString(confirmation, 'Passphrase confirmation', 1024)
+        );
+        return { success: true };
+      } catch (error) {
+        console.error('Error creating keystore:', error instanceof Error ? error.message : error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: errorMessage };
+      }
+    });
+
+    ipcMain.handle('lock-keystore', async () => {
+      try {
+        if (this.tradingBot.getStatus().isRunning) {
+          return { success: false, error: 'Stop the bot before locking the keystore' };
+        }
+        this.backupManager.lock();
+        return { success: true };
+      } catch (error) {
+        console.error('Error locking keystore:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: errorMessage };
+      }
+    });
+
+    ipcMain.handle('get-keystore-status', async () => {
+      return { unlocked: this.backupManager.isUnlocked(), exists: await this.backupManager.hasKeystore() };
+    });
+
     // Wallet operations
+    ipcMain.handle('import-main-wallet', async (_event, privateKey: unknown) => {
+      try {
+        this.requireActiveBackupDirectory();
+        const result = await this.walletManager.importMainWallet(IpcValidator.requireString(privateKey, 'Private key', 128));
+        if (result.success && result.walletId) {
+          this.walletsImportedThisSession.add(result.walletId);
+        }
+        return result;
+      } catch (error) {
+        console.error('Error importing main wallet:', error instanceof Error ? error.message : error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: errorMessage };
+      }
+    });
+
     ipcMain.handle('get-all-wallets', async () => {
       try {
-        return await this.walletManager.getAllWallets();
+        return IpcValidator.redactSecrets(await this.walletManager.getAllWallets());
       } catch (error) {
         console.error('Error getting wallets:', error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -71,9 +165,11 @@ class MainProcess {
       }
     });
 
-    ipcMain.handle('create-subwallets', async (_event, count: number) => {
+    ipcMain.handle('create-subwallets', async (_event, count: unknown) => {
       try {
-        return await this.walletManager.createSubWallets(count);
+        this.requireActiveBackupDirectory();
+        const walletCount = IpcValidator.requireInteger(count, 'Number of sub-wallets', 1, 100);
+        return IpcValidator.redactSecrets(await this.walletManager.createSubWallets(walletCount));
       } catch (error) {
         console.error('Error creating subwallets:', error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -83,7 +179,7 @@ class MainProcess {
 
     ipcMain.handle('get-wallet-balances', async () => {
       try {
-        return await this.walletManager.getWalletBalances();
+        return IpcValidator.redactSecrets(await this.walletManager.getWalletBalances());
       } catch (error) {
         console.error('Error getting balances:', error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -92,9 +188,9 @@ class MainProcess {
     });
 
     // License validation
-    ipcMain.handle('validate-license', async (_event, licenseKey: string) => {
+    ipcMain.handle('validate-license', async (_event, licenseKey: unknown) => {
       try {
-        const validation = LicenseManager.validateLicenseKey(licenseKey);
+        const validation = LicenseManager.validateLicenseKey(IpcValidator.requireString(licenseKey, 'License key', 2048));
         return validation;
       } catch (error) {
         console.error('Error validating license:', error);
@@ -103,9 +199,21 @@ class MainProcess {
     });
 
     // Trading bot operations
-    ipcMain.handle('start-bot', async (_event, config: any) => {
+    ipcMain.handle('start-bot', async (_event, request: unknown) => {
       try {
-        return await this.tradingBot.start(config);
+        this.requireActiveBackupDirectory();
+        const { mainWalletId, ...config } = IpcValidator.validateStartBotRequest(request);
+        // Stopping the bot sweeps every sub-wallet into this wallet
+        const confirmed = await this.confirmFundsDestination(
+          mainWalletId,
+          'Start the bot with a main wallet imported in this session?',
+          'Start bot'
+        );
+        if (!confirmed) {
+          return { success: false, error: 'Bot start cancelled' };
+        }
+        const mainWallet = await this.backupManager.unlockSigner(mainWalletId);
+        return await this.tradingBot.start({ ...config, mainWallet });
       } catch (error) {
         console.error('Error starting bot:', error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -125,7 +233,7 @@ class MainProcess {
 
     ipcMain.handle('get-bot-status', async () => {
       try {
-        return this.tradingBot.getStatus();
+        return IpcValidator.redactSecrets(this.tradingBot.getStatus());
       } catch (error) {
         console.error('Error getting bot status:', error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -144,9 +252,33 @@ class MainProcess {
     });
 
     // Recovery operations
-    ipcMain.handle('recover-all-funds', async (_event, mainWalletPrivateKey: string, tokenAddress?: string) => {
+    ipcMain.handle('plan-recovery', async (_event, mainWalletId: unknown, tokenAddress?: unknown) => {
+      try {
+        const walletId = IpcValidator.requirePublicKey(mainWalletId, 'Main wallet');
+        const token = IpcValidator.optionalPublicKey(tokenAddress, 'Token address');
+        return await this.walletManager.planRecovery(walletId, token);
+      } catch (error) {
+        console.error('Error planning recovery:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: errorMessage };
+      }
+    });
+
+    ipcMain.handle('recover-all-funds', async (_event, mainWalletId: unknown, tokenAddress?: unknown) => {
       try {
-        return await this.walletManager.recoverAllFunds(mainWalletPrivateKey, tokenAddress);
+        this.requireActiveBackupDirectory();
+        const walletId = IpcValidator.requirePublicKey(mainWalletId, 'Main wallet');
+        const token = IpcValidator.optionalPublicKey(tokenAddress, 'Token address');
+        const confirmed = await this.confirmFundsDestination(
+          walletId,
+          'Send all sub-wallet funds to a main wallet imported in this session?',
+          'Recover funds'
+        );
+        if (!confirmed) {
+          return { success: false, error: 'Recovery cancelled' };
+        }
+        const mainWallet = await this.backupManager.unlockSigner(walletId);
+        return await this.walletManager.recoverAllFunds(mainWallet, token);
       } catch (error) {
         console.error('Error recovering funds:', error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -157,7 +289,7 @@ class MainProcess {
     // Backup operations
     ipcMain.handle('get-backup-files', async () => {
       try {
-        return await this.backupManager.getBackupFiles();
+        return IpcValidator.redactSecrets(await this.backupManager.scanBackupFiles());
       } catch (error) {
         console.error('Error getting backup files:', error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -165,19 +297,232 @@ class MainProcess {
       }
     });
 
+    ipcMain.handle('verify-backups', async () => {
+      try {
+        return await this.backupManager.verifyBackups();
+      } catch (error) {
+        console.error('Error verifying backups:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: errorMessage };
+      }
+    });
+
+    // Settings
+    ipcMain.handle('get-settings', async () => {
+      return {
+        success: true,
+        settings: this.settingsManager.getSettings(),
+        active: { cluster: this.activeSettings.cluster, backupDirectory: this.activeSettings.backupDirectory }
+      };
+    });
+
+    ipcMain.handle('update-settings', async (_event, update: unknown) => {
+      try {
+        if (this.tradingBot.getStatus().isRunning) {
+          return { success: false, error: 'Stop the bot before changing settings' };
+        }
+        const previous = this.settingsManager.getBackupDirectory();
+        const request = IpcValidator.validateSettingsUpdate(update);
+        if (request.backupDirectory !== undefined) {
+          request.backupDirectory = this.requireBackupDirectory(request.backupDirectory);
+        }
+        const settings = await this.settingsManager.update(request);
+        // Returning to the directory the services run on needs no copy
+        if (settings.backupDirectory !== previous && settings.backupDirectory !== this.activeSettings.backupDirectory) {
+          try {
+            // The new directory must open with the same keystore and wallets after the restart
+            await this.backupManager.copyBackupsTo(settings.backupDirectory);
+          } catch (error) {
+            await this.settingsManager.update({ backupDirectory: previous });
+            throw error;
+          }
+        }
+        const restartRequired = settings.cluster !== this.activeSettings.cluster
+          || settings.backupDirectory !== this.activeSettings.backupDirectory;
+        return { success: true, settings, restartRequired };
+      } catch (error) {
+        console.error('Error updating settings:', error instanceof Error ? error.message : error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: errorMessage };
+      }
+    });
+
+    ipcMain.handle('choose-backup-directory', async () => {
+      try {
+        const options: Electron.OpenDialogOptions = {
+          title: 'Choose wallet backup directory',
+          defaultPath: this.settingsManager.getBackupDirectory(),
+          properties: ['openDirectory', 'createDirectory']
+        };
+        const result = this.mainWindow
+          ? await dialog.showOpenDialog(this.mainWindow, options)
+          : await dialog.showOpenDialog(options);
+        if (result.canceled) {
+          return { success: true };
+        }
+        this.chosenBackupDirectory = path.resolve(result.filePaths[0]);
+        return { success: true, directory: this.chosenBackupDirectory };
+      } catch (error) {
+        console.error('Error choosing backup directory:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: errorMessage };
+      }
+    });
+
+    ipcMain.handle('restart-app', async () => {
+      if (this.tradingBot.getStatus().isRunning) {
+        return { success: false, error: 'Stop the bot before restarting' };
+      }
+      app.relaunch();
+      app.quit();
+      return { success: true };
+    });
+
+    ipcMain.handle('find-legacy-backups', async () => {
+      try {
+        return { success: true, locations: await this.settingsManager.findLegacyBackupLocations() };
+      } catch (error) {
+        console.error('Error looking for legacy backups:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: errorMessage };
+      }
+    });
+
+    ipcMain.handle('import-legacy-backups', async (_event, directory: unknown) => {
+      try {
+        this.requireActiveBackupDirectory();
+        const source = await this.requireLegacyLocation(directory);
+        const result = await this.backupManager.importBackupsFrom(source);
+        // Files that could not be imported keep the directory on offer until dismissed
+        if (result.skipped.length === 0) {
+          await this.settingsManager.markLegacyDirectoryHandled(source);
+        }
+        if (result.plaintextOriginals.length > 0) {
+          this.importedPlaintextOriginals.set(source, result.plaintextOriginals);
+        }
+        return { success: true, ...result };
+      } catch (error) {
+        console.error('Error importing legacy backups:', error instanceof Error ? error.message : error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: errorMessage };
+      }
+    });
+
+    ipcMain.handle('wipe-legacy-plaintext', async (_event, directory: unknown) => {
+      try {
+        // Only files this session imported from that directory can be wiped
+        const source = IpcValidator.requireString(directory, 'Directory', 1024);
+        const filenames = this.importedPlaintextOriginals.get(source);
+        if (!filenames) {
+          throw new Error('No imported plaintext backups to delete in this directory');
+        }
+        const wiped = await this.backupManager.wipeImportedOriginals(source, filenames);
+        this.importedPlaintextOriginals.delete(source);
+        return { success: true, wiped, kept: filenames.filter(filename => !wiped.includes(filename)) };
+      } catch (error) {
+        console.error('Error deleting legacy plaintext backups:', error instanceof Error ? error.message : error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: errorMessage };
+      }
+    });
+
+    ipcMain.handle('dismiss-legacy-backups', async (_event, directory: unknown) => {
+      try {
+        await this.settingsManager.markLegacyDirectoryHandled(await this.requireLegacyLocation(directory));
+        return { success: true };
+      } catch (error) {
+        console.error('Error dismissing legacy backups:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: errorMessage };
+      }
+    });
+
     // Event forwarding from services to renderer
     this.tradingBot.on('log', (log: any) => {
-      this.mainWindow?.webContents.send('bot-log', log);
+      this.mainWindow?.webContents.send('bot-log', IpcValidator.redactSecrets(log));
     });
 
     this.tradingBot.on('stats-update', (stats: any) => {
-      this.mainWindow?.webContents.send('stats-update', stats);
+      this.mainWindow?.webContents.send('stats-update', IpcValidator.redactSecrets(stats));
     });
 
     this.walletManager.on('wallet-update', (wallets: any) => {
-      this.mainWindow?.webContents.send('wallet-update', wallets);
+      this.mainWindow?.webContents.send('wallet-update', IpcValidator.redactSecrets(wallets));
     });
   }
+
+  /**
+   * The renderer may only save the directory it runs on, the saved one, or
+   * one the user picked in the native dialog, so an injected script cannot
+   * have the encrypted backups copied to a location of its choosing
+   */
+  private requireBackupDirectory(directory: string): string {
+    const requested = path.resolve(directory);
+    const allowed = [
+      this.activeSettings.backupDirectory,
+      this.settingsManager.getBackupDirectory(),
+      this.chosenBackupDirectory
+    ];
+    if (!allowed.some(entry => entry !== null && path.resolve(entry) === requested)) {
+      throw new Error('Choose the backup directory with the Choose... button');
+    }
+    return requested;
+  }
+
+  /**
+   * Until the restart, the services still write to the previous backup
+   * directory; anything written there now would be missing after the switch
+   */
+  private requireActiveBackupDirectory(): void {
+    if (path.resolve(this.settingsManager.getBackupDirectory()) !== path.resolve(this.activeSettings.backupDirectory)) {
+      throw new Error('Restart the app to finish switching the backup directory first');
+    }
+  }
+
+  /**
+   * The renderer may only import from locations the main process detected
+   */
+  private async requireLegacyLocation(directory: unknown): Promise<string> {
+    const requested = IpcValidator.requireString(directory, 'Directory', 1024);
+    const locations = await this.settingsManager.findLegacyBackupLocations();
+    const location = locations.find(entry => entry.directory === requested);
+    if (!location) {
+      throw new Error('Not a detected legacy backup location');
+    }
+    return location.directory;
+  }
+
+  /**
+   * Ask in a native dialog before any operation that ends with sub-wallets
+   * being swept into a main wallet imported this session (recovery, or
+   * starting the bot, whose stop runs a recovery), so a compromised renderer
+   * cannot import its own key and redirect the funds unnoticed
+   * @returns True if the wallet was not imported this session or the user confirmed
+   */
+  private async confirmFundsDestination(walletId: string, message: string, confirmLabel: string): Promise<boolean> {
+    if (!this.walletsImportedThisSession.has(walletId)) {
+      return true;
+    }
+
+    const options = {
+      type: 'warning' as const,
+      buttons: ['Cancel', confirmLabel],
+      defaultId: 0,
+      cancelId: 0,
+      title: 'Confirm main wallet',
+      message,
+      detail: `Sub-wallet funds will be sent to: ${walletId}\n\nOnly continue if you imported this wallet yourself.`
+    };
+    const { response } = this.mainWindow
+      ? await dialog.showMessageBox(this.mainWindow, options)
+      : await dialog.showMessageBox(options);
+
+    if (response !== 1) {
+      return false;
+    }
+    this.walletsImportedThisSession.delete(walletId);
+    return true;
+  }
 }
 
 new MainProcess();
@@ -0,0 +1,72 @@
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+// Type-only: a sandboxed preload can require nothing but 'electron'
+import type { SettingsUpdateRequest, StartBotRequest } from './services/IpcValidator';
+
+export interface VolumeBotApi {
+  unlockKeystore(passphrase: string): Promise<any>;
+  createKeystore(passphrase: string, confirmation: string): Promise<any>;
+  lockKeystore(): Promise<any>;
+  getKeystoreStatus(): Promise<{ unlocked: boolean; exists: boolean }>;
+  importMainWallet(privateKey: string): Promise<any>;
+  getAllWallets(): Promise<any>;
+  createSubWallets(count: number): Promise<any>;
+  getWalletBalances(): Promise<any>;
+  validateLicense(licenseKey: string): Promise<any>;
+  startBot(config: StartBotRequest): Promise<any>;
+  stopBot(): Promise<any>;
+  getBotStatus(): Promise<any>;
+  getBotStats(): Promise<any>;
+  planRecovery(mainWalletId: string, tokenAddress?: string): Promise<any>;
+  recoverAllFunds(mainWalletId: string, tokenAddress?: string): Promise<any>;
+  getBackupFiles(): Promise<any>;
+  verifyBackups(): Promise<any>;
+  getSettings(): Promise<any>;
+  updateSettings(update: SettingsUpdateRequest): Promise<any>;
+  chooseBackupDirectory(): Promise<any>;
+  restartApp(): Promise<any>;
+  findLegacyBackups(): Promise<any>;
+  importLegacyBackups(directory: string): Promise<any>;
+  wipeLegacyPlaintext(directory: string): Promise<any>;
+  dismissLegacyBackups(directory: string): Promise<any>;
+  onBotLog(callback: (log: any) => void): void;
+  onStatsUpdate(callback: (stats: any) => void): void;
+  onWalletUpdate(callback: (wallets: any) => void): void;
+}
+
+// Only hand the payload to the renderer, never the raw IPC event
+function subscribe(channel: string, callback: (payload: any) => void): void {
+  ipcRenderer.on(channel, (_event: IpcRendererEvent, payload: any) => callback(payload));
+}
+
+const api: VolumeBotApi = {
+  unlockKeystore: (passphrase) => ipcRenderer.invoke('unlock-keystore', passphrase),
+  createKeystore: (passphrase, confirmation) => ipcRenderer.invoke('create-keystore', passphrase, confirmation),
+  lockKeystore: () => ipcRenderer.invoke('lock-keystore'),
+  getKeystoreStatus: () => ipcRenderer.invoke('get-keystore-status'),
+  importMainWallet: (privateKey) => ipcRenderer.invoke('import-main-wallet', privateKey),
+  getAllWallets: () => ipcRenderer.invoke('get-all-wallets'),
+  createSubWallets: (count) => ipcRenderer.invoke('create-subwallets', count),
+  getWalletBalances: () => ipcRenderer.invoke('get-wallet-balances'),
+  validateLicense: (licenseKey) => ipcRenderer.invoke('validate-license', licenseKey),
+  startBot: (config) => ipcRenderer.invoke('start-bot', config),
+  stopBot: () => ipcRenderer.invoke('stop-bot'),
+  getBotStatus: () => ipcRenderer.invoke('get-bot-status'),
+  getBotStats: () => ipcRenderer.invoke('get-bot-stats'),
+  planRecovery: (mainWalletId, tokenAddress) => ipcRenderer.invoke('plan-recovery', mainWalletId, tokenAddress),
+  recoverAllFunds: (mainWalletId, tokenAddress) => ipcRenderer.invoke('recover-all-funds', mainWalletId, tokenAddress),
+  getBackupFiles: () => ipcRenderer.invoke('get-backup-files'),
+  verifyBackups: () => ipcRenderer.invoke('verify-backups'),
+  getSettings: () => ipcRenderer.invoke('get-settings'),
+  updateSettings: (update) => ipcRenderer.invoke('update-settings', update),
+  chooseBackupDirectory: () => ipcRenderer.invoke('choose-backup-directory'),
+  restartApp: () => ipcRenderer.invoke('restart-app'),
+  findLegacyBackups: () => ipcRenderer.invoke('find-legacy-backups'),
+  importLegacyBackups: (directory) => ipcRenderer.invoke('import-legacy-backups', directory),
+  wipeLegacyPlaintext: (directory) => ipcRenderer.invoke('wipe-legacy-plaintext', directory),
+  dismissLegacyBackups: (directory) => ipcRenderer.invoke('dismiss-legacy-backups', directory),
+  onBotLog: (callback) => subscribe('bot-log', callback),
+  onStatsUpdate: (callback) => subscribe('stats-update', callback),
+  onWalletUpdate: (callback) => subscribe('wallet-update', callback)
+};
+
+contextBridge.exposeInMainWorld('volumeBot', api);
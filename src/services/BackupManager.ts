@@ -1,27 +1,42 @@
 import * as fs from 'fs/promises';
+import { constants as fsConstants } from 'fs';
 import * as path from 'path';
 import { EventEmitter } from 'events';
+import * as crypto from 'crypto';
+import { Keystore, KeystorePayload } from './Keystore';
+import { WalletSigner } from './WalletSigner';
+import { BackupSchema } from './BackupSchema';
 
 export interface WalletBackup {
   timestamp: number;
+  // null (or absent) means the backup has no main wallet
   mainWallet?: {
     publicKey: string;
     privateKey: string;
     createdAt: number;
-  };
+  } | null;
   subWallets: Array<{
     publicKey: string;
     privateKey: string;
     createdAt: number;
     index: number;
+    // Set once recovery has emptied the wallet; it is never used for trading again
+    retiredAt?: number;
   }>;
   metadata: {
     version: string;
     createdBy: string;
     totalWallets: number;
+    checksum?: string;
   };
 }
 
+export interface EncryptedWalletBackup {
+  timestamp: number;
+  metadata: WalletBackup['metadata'];
+  keystore: KeystorePayload;
+}
+
 export interface BackupFile {
   filename: string;
   path: string;
@@ -29,13 +44,677 @@ export interface BackupFile {
   data: WalletBackup;
 }
 
+export interface UnreadableBackupFile {
+  filename: string;
+  path: string;
+  error: string;
+  quarantined?: boolean;
+}
+
+export interface BackupScanResult {
+  files: BackupFile[];
+  unreadable: UnreadableBackupFile[];
+}
+
+export type BackupVerificationStatus = 'ok' | 'missing' | 'corrupt' | 'mismatch';
+
+export interface BackupVerificationResult {
+  filename: string;
+  status: BackupVerificationStatus;
+  issues: string[];
+  warnings: string[];
+  walletsChecked: number;
+}
+
+export interface BackupVerificationReport {
+  checkedAt: number;
+  ok: boolean;
+  results: BackupVerificationResult[];
+}
+
+export interface BackupImportResult {
+  imported: string[];
+  // Imported files that are still plaintext at the source
+  plaintextOriginals: string[];
+  skipped: Array<{ filename: string; reason: string }>;
+}
+
+interface BackupManifest {
+  version: number;
+  files: Record<string, { checksum: string; createdAt: number }>;
+}
+
+export class QuarantinedBackupError extends Error {
+  constructor(filename: string, reason: string) {
+    super(`Unrecognized backup format (moved to quarantine/${filename}): ${reason}`);
+    this.name = 'QuarantinedBackupError';
+  }
+}
+
 export class BackupManager extends EventEmitter {
+  private static readonly MANIFEST_FILENAME = 'backup-manifest.json';
+  private static readonly QUARANTINE_DIR = 'quarantine';
+  private static readonly KEYSTORE_CHECK_FILENAME = 'keystore-check.json';
+  private static readonly KEYSTORE_CHECK_VALUE = 'volume-bot-keystore';
+  public static readonly LEDGER_FILENAME = 'recovery-ledger.jsonl';
+
   private backupDir: string;
+  private keystore: Keystore;
+  private signers: Map<string, WalletSigner> = new Map();
+  private lastBackupTimestamp = 0;
+  // True once the passphrase opened data encrypted in an earlier session
+  private passphraseConfirmed = false;
 
-  constructor() {
+  /**
+   * @param keystore Keystore that encrypts every backup
+   * @param backupDir Directory holding the backups and recovery ledger
+   */
+  constructor(keystore: Keystore, backupDir: string = path.join(process.cwd(), 'wallet-backups')) {
     super();
-    this.backupDir = path.join(process.cwd(), 'wallet-backups');
-    this.ensureBackupDirectory();
+    this.keystore = keystore;
+    this.backupDir = backupDir;
+    // The directory is created on first use; it may sit on a drive that is not mounted yet
+  }
+
+  /**
+   * Unlock the backup keystore for this session. The passphrase must
+   * decrypt the keystore check file or an existing encrypted backup.
+   * @param passphrase Keystore passphrase
+   */
+  public async unlock(passphrase: string): Promise<void> {
+    const check = await this.findKeystoreCheck();
+    if (!check) {
+      throw new Error('No keystore exists yet - create one first');
+    }
+
+    this.keystore.unlock(passphrase);
+    try {
+      await this.keystore.decrypt(check);
+    } catch (error) {
+      this.keystore.lock();
+      throw new Error('Wrong keystore passphrase');
+    }
+    this.passphraseConfirmed = true;
+  }
+
+  /**
+   * Create the keystore with a passphrase typed twice and leave it unlocked.
+   * Plaintext backups are not migrated in this session; that happens on the
+   * first regular unlock, so a mistyped passphrase cannot lock them away.
+   * @param passphrase New keystore passphrase
+   * @param confirmation The passphrase entered a second time
+   */
+  public async createKeystore(passphrase: string, confirmation: string): Promise<void> {
+    if (await this.hasKeystore()) {
+      throw new Error('A keystore already exists - unlock it instead');
+    }
+    if (passphrase !== confirmation) {
+      throw new Error('Passphrases do not match');
+    }
+
+    this.keystore.unlock(passphrase);
+    try {
+      const check = await this.keystore.encrypt(BackupManager.KEYSTORE_CHECK_VALUE);
+      await this.writeFileAtomic(
+        path.join(this.backupDir, BackupManager.KEYSTORE_CHECK_FILENAME),
+        JSON.stringify({ version: Keystore.VERSION, createdAt: Date.now(), keystore: check }, null, 2)
+      );
+    } catch (error) {
+      this.keystore.lock();
+      throw error;
+    }
+    console.log('✓ Keystore created');
+  }
+
+  /**
+   * @returns True if a passphrase has been set for this backup directory
+   */
+  public async hasKeystore(): Promise<boolean> {
+    return (await this.findKeystoreCheck()) !== null;
+  }
+
+  /**
+   * Lock the keystore and zero every signer handed out this session
+   */
+  public lock(): void {
+    for (const signer of this.signers.values()) {
+      signer.lock();
+    }
+    this.signers.clear();
+    this.keystore.lock();
+    this.passphraseConfirmed = false;
+  }
+
+  public isUnlocked(): boolean {
+    return this.keystore.isUnlocked();
+  }
+
+  /**
+   * Ciphertext that proves a passphrase: the check file written by
+   * createKeystore, or any encrypted backup from before it existed
+   */
+  private async findKeystoreCheck(directory: string = this.backupDir): Promise<KeystorePayload | null> {
+    try {
+      const raw = JSON.parse(await fs.readFile(path.join(directory, BackupManager.KEYSTORE_CHECK_FILENAME), 'utf-8'));
+      if (raw && typeof raw.keystore === 'object') {
+        return raw.keystore;
+      }
+    } catch {
+      // No check file yet
+    }
+
+    const existing = await this.findEncryptedBackup(directory);
+    return existing ? existing.keystore : null;
+  }
+
+  private async findEncryptedBackup(directory: string): Promise<EncryptedWalletBackup | null> {
+    await this.ensureBackupDirectory();
+    const files = await fs.readdir(directory);
+
+    for (const filename of files) {
+      if (!this.isBackupFilename(filename)) continue;
+      try {
+        const raw = JSON.parse(await fs.readFile(path.join(directory, filename), 'utf-8'));
+        if (this.isEncryptedBackup(raw)) {
+          return raw;
+        }
+      } catch {
+        // Unreadable files are reported by getBackupFiles
+      }
+    }
+
+    return null;
+  }
+
+  private isBackupFilename(filename: string): boolean {
+    return filename.startsWith('wallets-') && filename.endsWith('.json');
+  }
+
+  private isEncryptedBackup(rawBackup: any): rawBackup is EncryptedWalletBackup {
+    return !!rawBackup && typeof rawBackup.keystore === 'object' && rawBackup.metadata?.version === Keystore.VERSION;
+  }
+
+  private async encryptBackup(backup: WalletBackup): Promise<EncryptedWalletBackup> {
+    const versioned: WalletBackup = {
+      ...backup,
+      metadata: { ...backup.metadata, version: Keystore.VERSION }
+    };
+
+    return {
+      timestamp: versioned.timestamp,
+      metadata: versioned.metadata,
+      keystore: await this.keystore.encrypt(JSON.stringify(versioned))
+    };
+  }
+
+  /**
+   * SHA-256 over the wallet content of a backup, independent of key order
+   */
+  private computeChecksum(rawBackup: any): string {
+    const wallet = (w: any) => w && typeof w === 'object'
+      ? { publicKey: w.publicKey, privateKey: w.privateKey, createdAt: w.createdAt, index: w.index, retiredAt: w.retiredAt }
+      : w ?? null;
+
+    const canonical = JSON.stringify({
+      timestamp: rawBackup.timestamp,
+      mainWallet: wallet(rawBackup.mainWallet),
+      subWallets: (rawBackup.subWallets || []).map(wallet)
+    });
+
+    return crypto.createHash('sha256').update(canonical).digest('hex');
+  }
+
+  private withChecksum(backup: WalletBackup): WalletBackup {
+    const { checksum, ...metadata } = backup.metadata;
+    const withoutChecksum = { ...backup, metadata };
+    return {
+      ...withoutChecksum,
+      metadata: { ...metadata, checksum: this.computeChecksum(withoutChecksum) }
+    };
+  }
+
+  /**
+   * Read, decrypt and checksum-verify a backup file without normalizing it
+   */
+  private async readRawBackup(filepath: string): Promise<any> {
+    const data = await fs.readFile(filepath, 'utf-8');
+    let rawBackup = JSON.parse(data);
+
+    if (this.isEncryptedBackup(rawBackup)) {
+      const outerChecksum = rawBackup.metadata.checksum;
+      rawBackup = JSON.parse(await this.keystore.decrypt(rawBackup.keystore));
+
+      if (outerChecksum !== rawBackup.metadata?.checksum) {
+        throw new Error('Checksum in file header does not match encrypted content');
+      }
+    }
+
+    if (!rawBackup || typeof rawBackup !== 'object') {
+      throw new Error('Backup file does not contain a JSON object');
+    }
+
+    const checksum = rawBackup.metadata?.checksum;
+    if (checksum && checksum !== this.computeChecksum(rawBackup)) {
+      throw new Error('Checksum mismatch - backup content has been modified or corrupted');
+    }
+
+    return rawBackup;
+  }
+
+  private async readBackupFile(filepath: string, filename: string): Promise<WalletBackup> {
+    const rawBackup = await this.readRawBackup(filepath);
+
+    // Convert old format to new format if needed
+    return this.migrateOrQuarantine(rawBackup, filename);
+  }
+
+  private async migrateOrQuarantine(rawBackup: any, filename: string): Promise<WalletBackup> {
+    const migration = BackupSchema.migrate(rawBackup, filename);
+    if (!migration.valid || !migration.backup) {
+      await this.quarantineBackup(filename, migration.error || 'Unknown backup format');
+      throw new QuarantinedBackupError(filename, migration.error || 'Unknown backup format');
+    }
+    return migration.backup;
+  }
+
+  /**
+   * Move a backup with an unrecognized shape out of the scan path. The
+   * file is kept untouched in quarantine/ for manual inspection.
+   */
+  private async quarantineBackup(filename: string, reason: string): Promise<void> {
+    const quarantineDir = path.join(this.backupDir, BackupManager.QUARANTINE_DIR);
+    await fs.mkdir(quarantineDir, { recursive: true });
+
+    await fs.rename(path.join(this.backupDir, filename), path.join(quarantineDir, filename));
+    await fs.writeFile(
+      path.join(quarantineDir, `${filename}.reason.json`),
+      JSON.stringify({ filename, reason, quarantinedAt: Date.now() }, null, 2)
+    );
+
+    console.warn(`Quarantined backup file ${filename}: ${reason}`);
+    this.emit('backup-quarantined', { filename, reason });
+  }
+
+  private async readManifest(directory: string = this.backupDir): Promise<BackupManifest> {
+    try {
+      const data = await fs.readFile(path.join(directory, BackupManager.MANIFEST_FILENAME), 'utf-8');
+      const manifest = JSON.parse(data);
+      if (manifest && typeof manifest.files === 'object') {
+        return manifest;
+      }
+    } catch {
+      // No manifest yet - every file is reported as unlisted
+    }
+    return { version: 1, files: {} };
+  }
+
+  private async recordInManifest(filename: string, checksum: string): Promise<void> {
+    const manifest = await this.readManifest();
+    manifest.files[filename] = { checksum, createdAt: Date.now() };
+    await this.writeFileAtomic(
+      path.join(this.backupDir, BackupManager.MANIFEST_FILENAME),
+      JSON.stringify(manifest, null, 2)
+    );
+  }
+
+  private async writeFileAtomic(filepath: string, contents: string): Promise<void> {
+    const tempPath = `${filepath}.tmp`;
+    await fs.writeFile(tempPath, contents, { mode: 0o600 });
+    await fs.rename(tempPath, filepath);
+  }
+
+  /**
+   * Overwrite a file with random bytes before unlinking it
+   */
+  private async secureDelete(filepath: string): Promise<void> {
+    const handle = await fs.open(filepath, 'r+');
+    try {
+      await this.overwriteContents(handle);
+    } finally {
+      await handle.close();
+    }
+    await fs.unlink(filepath);
+  }
+
+  /**
+   * Atomically replace a file, then overwrite the old contents through a
+   * handle opened before the rename. The filename always holds one complete
+   * version, so a crash cannot leave the wallets only in a temporary file.
+   */
+  private async replaceSecurely(filepath: string, replacementPath: string): Promise<void> {
+    const handle = await fs.open(filepath, 'r+');
+    try {
+      await fs.rename(replacementPath, filepath);
+      await this.overwriteContents(handle);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async overwriteContents(handle: fs.FileHandle): Promise<void> {
+    const { size } = await handle.stat();
+    await handle.write(crypto.randomBytes(size), 0, size, 0);
+    await handle.sync();
+  }
+
+  /**
+   * Older versions wiped the plaintext original before renaming its
+   * encrypted copy into place; a crash in between left only wallets-*.json.enc.
+   * Move such copies back once they decrypt, and drop stale ones whose
+   * original is still intact.
+   */
+  private async restoreOrphanedEncryptedBackups(files: string[]): Promise<void> {
+    for (const encryptedName of files) {
+      if (!encryptedName.endsWith('.json.enc')) continue;
+      const filename = encryptedName.slice(0, -'.enc'.length);
+      if (!this.isBackupFilename(filename)) continue;
+
+      const encryptedPath = path.join(this.backupDir, encryptedName);
+      const filepath = path.join(this.backupDir, filename);
+      try {
+        const backup = await this.readRawBackup(encryptedPath);
+
+        if (files.includes(filename)) {
+          try {
+            await this.readRawBackup(filepath);
+            await this.secureDelete(encryptedPath);
+            continue;
+          } catch {
+            // The original was partly wiped; the encrypted copy is the one to keep
+          }
+        }
+
+        await fs.rename(encryptedPath, filepath);
+        await this.recordInManifest(filename, backup.metadata.checksum);
+        console.log(`✓ Restored interrupted backup migration: ${filename}`);
+      } catch (error) {
+        console.error(`✗ Cannot restore ${encryptedName}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  /**
+   * Re-encrypt every plaintext wallets-*.json with the session passphrase
+   * and securely remove the plaintext original. Does nothing until the
+   * passphrase has unlocked the keystore at least once after creating it.
+   * @returns Filenames that were migrated
+   */
+  public async migratePlaintextBackups(): Promise<string[]> {
+    if (!this.keystore.isUnlocked()) {
+      throw new Error('Keystore is locked');
+    }
+    if (!this.passphraseConfirmed) {
+      console.log('⚠ Plaintext backups are encrypted once the new keystore has been unlocked again');
+      return [];
+    }
+
+    await this.ensureBackupDirectory();
+    await this.restoreOrphanedEncryptedBackups(await fs.readdir(this.backupDir));
+    const files = await fs.readdir(this.backupDir);
+    const migrated: string[] = [];
+
+    for (const filename of files) {
+      if (!this.isBackupFilename(filename)) continue;
+
+      const filepath = path.join(this.backupDir, filename);
+      try {
+        const rawBackup = JSON.parse(await fs.readFile(filepath, 'utf-8'));
+        if (this.isEncryptedBackup(rawBackup)) continue;
+
+        const backup = this.withChecksum(await this.migrateOrQuarantine(rawBackup, filename));
+        const encrypted = await this.encryptBackup(backup);
+
+        // Make sure the encrypted copy round-trips before touching the original
+        const roundTrip = JSON.parse(await this.keystore.decrypt(encrypted.keystore));
+        if (JSON.stringify({ ...roundTrip, metadata: backup.metadata }) !== JSON.stringify(backup)) {
+          throw new Error('Encrypted copy does not match original');
+        }
+
+        const encryptedPath = `${filepath}.enc`;
+        const handle = await fs.open(encryptedPath, 'w', 0o600);
+        try {
+          await handle.writeFile(JSON.stringify(encrypted, null, 2));
+          await handle.sync();
+        } finally {
+          await handle.close();
+        }
+        await this.replaceSecurely(filepath, encryptedPath);
+        await this.recordInManifest(filename, backup.metadata.checksum!);
+
+        migrated.push(filename);
+        console.log(`Encrypted plaintext backup: ${filename}`);
+      } catch (error) {
+        console.error(`Failed to migrate backup file ${filename}:`, error);
+      }
+    }
+
+    if (migrated.length > 0) {
+      this.emit('backups-migrated', { files: migrated });
+    }
+
+    return migrated;
+  }
+
+  /**
+   * Copy the backups (and recovery ledger) from another directory, such as
+   * the cwd-relative folder older versions used. Encrypted files must open
+   * with the current passphrase; plaintext files are encrypted after copying.
+   * The originals are left in place.
+   * @param sourceDir Directory to import from
+   */
+  public async importBackupsFrom(sourceDir: string): Promise<BackupImportResult> {
+    if (!this.keystore.isUnlocked()) {
+      throw new Error('Keystore is locked - unlock it before importing backups');
+    }
+    if (path.resolve(sourceDir) === path.resolve(this.backupDir)) {
+      throw new Error('Cannot import backups from the current backup directory');
+    }
+
+    await this.ensureBackupDirectory();
+    const existing = new Set(await fs.readdir(this.backupDir));
+    const result: BackupImportResult = { imported: [], plaintextOriginals: [], skipped: [] };
+
+    for (const filename of await fs.readdir(sourceDir)) {
+      if (!this.isBackupFilename(filename)) continue;
+      const sourcePath = path.join(sourceDir, filename);
+      if (existing.has(filename)) {
+        await this.checkAlreadyImported(sourcePath, filename, result);
+        continue;
+      }
+
+      try {
+        const rawBackup = JSON.parse(await fs.readFile(sourcePath, 'utf-8'));
+        // Decrypting checks the passphrase and checksum before anything is copied
+        const checksum = this.isEncryptedBackup(rawBackup)
+          ? (await this.readRawBackup(sourcePath)).metadata?.checksum
+          : undefined;
+
+        await fs.copyFile(sourcePath, path.join(this.backupDir, filename), fsConstants.COPYFILE_EXCL);
+        await fs.chmod(path.join(this.backupDir, filename), 0o600);
+        if (checksum) {
+          await this.recordInManifest(filename, checksum);
+        } else {
+          result.plaintextOriginals.push(filename);
+        }
+        result.imported.push(filename);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        result.skipped.push({ filename, reason: errorMessage });
+      }
+    }
+
+    // Keep an interrupted recovery run resumable from the new location
+    const ledgerPath = path.join(this.backupDir, BackupManager.LEDGER_FILENAME);
+    if (!existing.has(BackupManager.LEDGER_FILENAME)) {
+      try {
+        await fs.copyFile(path.join(sourceDir, BackupManager.LEDGER_FILENAME), ledgerPath, fsConstants.COPYFILE_EXCL);
+      } catch {
+        // No ledger to carry over
+      }
+    }
+
+    if (result.imported.length > 0) {
+      await this.migratePlaintextBackups();
+      console.log(`✓ Imported ${result.imported.length} backup(s) from ${sourceDir}`);
+      this.emit('backups-imported', { from: sourceDir, files: result.imported });
+    }
+
+    return result;
+  }
+
+  /**
+   * Copy this directory's backups, recovery ledger, keystore check and
+   * quarantine into another directory, so switching the backup directory
+   * does not leave the wallets behind. Files that already exist there are
+   * kept, and nothing is removed from this directory. A target holding a
+   * keystore that the current passphrase does not open is refused.
+   * @param targetDir The new backup directory
+   * @returns Filenames that were copied
+   */
+  public async copyBackupsTo(targetDir: string): Promise<string[]> {
+    if (!this.keystore.isUnlocked()) {
+      throw new Error('Keystore is locked - unlock it before changing the backup directory');
+    }
+    if (path.resolve(targetDir) === path.resolve(this.backupDir)) {
+      return [];
+    }
+
+    await this.ensureBackupDirectory();
+    await fs.mkdir(targetDir, { recursive: true });
+
+    // A keystore already in the target is kept, so it must be this one;
+    // otherwise one of the two sets of backups would no longer open
+    const targetCheck = await this.findKeystoreCheck(targetDir);
+    if (targetCheck) {
+      try {
+        await this.keystore.decrypt(targetCheck);
+      } catch {
+        throw new Error(`${targetDir} belongs to a keystore with a different passphrase`);
+      }
+    }
+
+    const copied: string[] = [];
+
+    for (const filename of await fs.readdir(this.backupDir)) {
+      const copyable = this.isBackupFilename(filename)
+        || filename === BackupManager.LEDGER_FILENAME
+        || filename === BackupManager.KEYSTORE_CHECK_FILENAME;
+      if (!copyable) continue;
+
+      try {
+        await fs.copyFile(path.join(this.backupDir, filename), path.join(targetDir, filename), fsConstants.COPYFILE_EXCL);
+        await fs.chmod(path.join(targetDir, filename), 0o600);
+        copied.push(filename);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+    }
+
+    // Carry the checksums of copied backups over; entries already in the target win
+    const source = await this.readManifest();
+    const target = await this.readManifest(targetDir);
+    for (const filename of copied) {
+      if (source.files[filename] && !target.files[filename]) {
+        target.files[filename] = source.files[filename];
+      }
+    }
+    await this.writeFileAtomic(path.join(targetDir, BackupManager.MANIFEST_FILENAME), JSON.stringify(target, null, 2));
+
+    const quarantineDir = path.join(this.backupDir, BackupManager.QUARANTINE_DIR);
+    try {
+      await fs.cp(quarantineDir, path.join(targetDir, BackupManager.QUARANTINE_DIR), { recursive: true, force: false });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    console.log(`✓ Copied ${copied.length} file(s) to backup directory ${targetDir}`);
+    return copied;
+  }
+
+  /**
+   * A source file whose name is taken counts as imported only if the backup
+   * here already holds all of its keys; a plaintext one can then still be wiped
+   */
+  private async checkAlreadyImported(sourcePath: string, filename: string, result: BackupImportResult): Promise<void> {
+    try {
+      const original = await this.readRawBackup(sourcePath);
+      if (await this.countMissingFromCopy(original, filename) > 0) {
+        result.skipped.push({ filename, reason: 'A different backup with this name already exists' });
+      } else if (!this.isEncryptedBackup(JSON.parse(await fs.readFile(sourcePath, 'utf-8')))) {
+        result.plaintextOriginals.push(filename);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      result.skipped.push({ filename, reason: errorMessage });
+    }
+  }
+
+  /**
+   * Securely delete plaintext originals left behind by importBackupsFrom.
+   * A file is only wiped while its imported copy still opens and holds
+   * every private key of the original.
+   * @param sourceDir Directory the backups were imported from
+   * @param filenames Plaintext originals to delete
+   * @returns Filenames that were deleted
+   */
+  public async wipeImportedOriginals(sourceDir: string, filenames: string[]): Promise<string[]> {
+    if (!this.keystore.isUnlocked()) {
+      throw new Error('Keystore is locked');
+    }
+    if (path.resolve(sourceDir) === path.resolve(this.backupDir)) {
+      throw new Error('Cannot wipe files in the current backup directory');
+    }
+
+    const wiped: string[] = [];
+    for (const filename of filenames) {
+      if (!this.isBackupFilename(filename) || path.basename(filename) !== filename) continue;
+
+      const sourcePath = path.join(sourceDir, filename);
+      try {
+        const original = await this.readRawBackup(sourcePath);
+        if (this.isEncryptedBackup(JSON.parse(await fs.readFile(sourcePath, 'utf-8')))) {
+          continue;
+        }
+
+        const missing = await this.countMissingFromCopy(original, filename);
+        if (missing > 0) {
+          throw new Error(`Imported copy is missing ${missing} wallet(s)`);
+        }
+
+        await this.secureDelete(sourcePath);
+        wiped.push(filename);
+      } catch (error) {
+        console.error(`✗ Kept plaintext original ${filename}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (wiped.length > 0) {
+      console.log(`✓ Securely deleted ${wiped.length} plaintext backup(s) in ${sourceDir}`);
+    }
+    return wiped;
+  }
+
+  /**
+   * @returns How many private keys of the original are not in the backup of
+   * the same name in this directory
+   */
+  private async countMissingFromCopy(original: unknown, filename: string): Promise<number> {
+    const copy = await this.readRawBackup(path.join(this.backupDir, filename));
+    const copied = new Set(this.privateKeysOf(copy, filename));
+    return this.privateKeysOf(original, filename).filter(privateKey => !copied.has(privateKey)).length;
+  }
+
+  private privateKeysOf(rawBackup: unknown, filename: string): string[] {
+    const migration = BackupSchema.migrate(rawBackup, filename);
+    if (!migration.valid || !migration.backup) {
+      throw new Error(migration.error || 'Unknown backup format');
+    }
+    const { mainWallet, subWallets } = migration.backup;
+    return [...(mainWallet ? [mainWallet] : []), ...subWallets].map(wallet => wallet.privateKey);
   }
 
   private async ensureBackupDirectory(): Promise<void> {
@@ -47,25 +726,56 @@ export class BackupManager extends EventEmitter {
     }
   }
 
+  /**
+   * Backups are named by timestamp and written with a rename, so a reused
+   * timestamp would silently replace an existing backup and lose its wallets.
+   * @returns A timestamp later than the previous backup with no file of that name
+   */
+  private async nextBackupTimestamp(): Promise<number> {
+    let timestamp = Math.max(Date.now(), this.lastBackupTimestamp + 1);
+    while (await this.pathExists(path.join(this.backupDir, `wallets-${timestamp}.json`))) {
+      timestamp++;
+    }
+    this.lastBackupTimestamp = timestamp;
+    return timestamp;
+  }
+
+  private async pathExists(filepath: string): Promise<boolean> {
+    try {
+      await fs.access(filepath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   public async createBackup(walletData: Omit<WalletBackup, 'timestamp' | 'metadata'>): Promise<string> {
-    const timestamp = Date.now();
-    const backup: WalletBackup = {
+    if (!this.keystore.isUnlocked()) {
+      throw new Error('Keystore is locked - unlock it before creating wallet backups');
+    }
+
+    const timestamp = await this.nextBackupTimestamp();
+    const backup: WalletBackup = this.withChecksum({
       timestamp,
       ...walletData,
       metadata: {
-        version: '1.0.0',
+        version: Keystore.VERSION,
         createdBy: 'solana-volume-bot',
         totalWallets: (walletData.mainWallet ? 1 : 0) + walletData.subWallets.length
       }
-    };
+    });
 
     const filename = `wallets-${timestamp}.json`;
     const filepath = path.join(this.backupDir, filename);
     
     try {
-      await fs.writeFile(filepath, JSON.stringify(backup, null, 2));
+      await this.ensureBackupDirectory();
+      const encrypted = await this.encryptBackup(backup);
+      await this.writeFileAtomic(filepath, JSON.stringify(encrypted, null, 2));
+      await this.recordInManifest(filename, backup.metadata.checksum!);
       console.log(`Wallet backup created: ${filename}`);
-      this.emit('backup-created', { filename, filepath, backup });
+      // Listeners get no wallet data; the private keys stay in the encrypted file
+      this.emit('backup-created', { filename, filepath, checksum: backup.metadata.checksum });
       return filepath;
     } catch (error) {
       console.error('Failed to create backup:', error);
@@ -75,21 +785,32 @@ export class BackupManager extends EventEmitter {
   }
 
   public async getBackupFiles(): Promise<BackupFile[]> {
+    const { files } = await this.scanBackupFiles();
+    return files;
+  }
+
+  /**
+   * Read every backup file, keeping track of the ones that could not be
+   * read so they can be surfaced instead of silently dropped
+   */
+  public async scanBackupFiles(): Promise<BackupScanResult> {
+    if (!this.keystore.isUnlocked()) {
+      throw new Error('Keystore is locked - unlock it to read wallet backups');
+    }
+
+    const unreadable: UnreadableBackupFile[] = [];
+
     try {
       await this.ensureBackupDirectory();
       const files = await fs.readdir(this.backupDir);
       const backupFiles: BackupFile[] = [];
 
       for (const filename of files) {
-        if (filename.startsWith('wallets-') && filename.endsWith('.json')) {
+        if (this.isBackupFilename(filename)) {
           const filepath = path.join(this.backupDir, filename);
           try {
-            const data = await fs.readFile(filepath, 'utf-8');
-            const rawBackup = JSON.parse(data);
-            
-            // Convert old format to new format if needed
-            const backup: WalletBackup = this.normalizeBackupFormat(rawBackup, filename);
-            
+            const backup = await this.readBackupFile(filepath, filename);
+
             backupFiles.push({
               filename,
               path: filepath,
@@ -97,68 +818,163 @@ export class BackupManager extends EventEmitter {
               data: backup
             });
           } catch (error) {
-            console.error(`Failed to read backup file ${filename}:`, error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`Failed to read backup file ${filename}: ${errorMessage}`);
+            // Quarantined files are listed from quarantine/ below
+            if (!(error instanceof QuarantinedBackupError)) {
+              unreadable.push({ filename, path: filepath, error: errorMessage });
+            }
           }
         }
       }
 
+      unreadable.push(...await this.listQuarantinedBackups());
+
+      if (unreadable.length > 0) {
+        this.emit('backups-unreadable', { files: unreadable.map(file => file.filename) });
+      }
+
       // Sort by timestamp (newest first)
-      return backupFiles.sort((a, b) => b.timestamp - a.timestamp);
+      return {
+        files: backupFiles.sort((a, b) => b.timestamp - a.timestamp),
+        unreadable
+      };
     } catch (error) {
       console.error('Failed to get backup files:', error);
+      return { files: [], unreadable };
+    }
+  }
+
+  /**
+   * Every file in quarantine/, so it stays visible until someone deals with it
+   */
+  private async listQuarantinedBackups(): Promise<UnreadableBackupFile[]> {
+    const quarantineDir = path.join(this.backupDir, BackupManager.QUARANTINE_DIR);
+    let files: string[];
+    try {
+      files = await fs.readdir(quarantineDir);
+    } catch {
       return [];
     }
+
+    const quarantined: UnreadableBackupFile[] = [];
+    for (const reasonFile of files.filter(file => file.endsWith('.reason.json'))) {
+      const filename = reasonFile.slice(0, -'.reason.json'.length);
+      let reason = 'Unknown backup format';
+      try {
+        const note = JSON.parse(await fs.readFile(path.join(quarantineDir, reasonFile), 'utf-8'));
+        if (typeof note?.reason === 'string') {
+          reason = note.reason;
+        }
+      } catch {
+        // Keep listing the file even if its note is damaged
+      }
+
+      quarantined.push({
+        filename,
+        path: path.join(quarantineDir, filename),
+        error: `Unrecognized backup format (in ${BackupManager.QUARANTINE_DIR}/): ${reason}`,
+        quarantined: true
+      });
+    }
+    return quarantined;
   }
 
-  private normalizeBackupFormat(rawBackup: any, filename: string): WalletBackup {
-    // If it's already in the new format
-    if (rawBackup.metadata && rawBackup.timestamp && rawBackup.mainWallet) {
-      return rawBackup as WalletBackup;
+  /**
+   * Check every backup against the manifest, its checksum and its keys
+   * @returns Per-file report of missing, corrupt and mismatched backups
+   */
+  public async verifyBackups(): Promise<BackupVerificationReport> {
+    if (!this.keystore.isUnlocked()) {
+      throw new Error('Keystore is locked - unlock it to verify wallet backups');
     }
 
-    // Convert old format to new format
-    const timestamp = rawBackup.timestamp || rawBackup.createdAt ? new Date(rawBackup.createdAt || rawBackup.timestamp).getTime() : Date.now();
-    
-    // Handle main wallet - ensure it exists in all backup files
-    let mainWallet: WalletBackup['mainWallet'] = undefined;
-    if (rawBackup.mainWallet && typeof rawBackup.mainWallet === 'object') {
-      mainWallet = {
-        publicKey: rawBackup.mainWallet.publicKey,
-        privateKey: rawBackup.mainWallet.privateKey,
-        createdAt: rawBackup.mainWallet.createdAt ? new Date(rawBackup.mainWallet.createdAt).getTime() : timestamp
-      };
-    } else if (!rawBackup.mainWallet) {
-      // If no main wallet is defined, use a placeholder (this should be filled by user)
-      console.warn(`Backup file ${filename} has no main wallet defined - using placeholder`);
-      mainWallet = {
-        publicKey: "9q36V4YA4wNbywXzttshrKfAursbwVUv5F4zHZ1DbTFs", // Default placeholder
-        privateKey: "REPLACE_WITH_YOUR_MAIN_WALLET_PRIVATE_KEY_HERE",
-        createdAt: timestamp
-      };
+    await this.ensureBackupDirectory();
+    const manifest = await this.readManifest();
+    const filenames = (await fs.readdir(this.backupDir)).filter(filename => this.isBackupFilename(filename));
+    const results: BackupVerificationResult[] = [];
+
+    for (const filename of filenames) {
+      results.push(await this.verifyBackupFile(filename, manifest.files[filename]?.checksum));
     }
 
-    // Handle sub wallets
-    const subWallets = (rawBackup.subWallets || []).map((wallet: any, index: number) => ({
-      publicKey: wallet.publicKey,
-      privateKey: wallet.privateKey,
-      createdAt: wallet.createdAt ? new Date(wallet.createdAt).getTime() : timestamp,
-      index: wallet.index !== undefined ? wallet.index : index
-    }));
+    for (const filename of Object.keys(manifest.files)) {
+      if (!filenames.includes(filename)) {
+        results.push({
+          filename,
+          status: 'missing',
+          issues: ['Listed in backup manifest but not found on disk'],
+          warnings: [],
+          walletsChecked: 0
+        });
+      }
+    }
 
     return {
-      timestamp,
-      mainWallet,
-      subWallets,
-      metadata: {
-        version: rawBackup.version || '1.0.0',
-        createdBy: 'solana-volume-bot',
-        totalWallets: (mainWallet ? 1 : 0) + subWallets.length
+      checkedAt: Date.now(),
+      ok: results.every(result => result.status === 'ok'),
+      results
+    };
+  }
+
+  private async verifyBackupFile(filename: string, manifestChecksum?: string): Promise<BackupVerificationResult> {
+    const issues: string[] = [];
+    const warnings: string[] = [];
+
+    let rawBackup: any;
+    try {
+      rawBackup = await this.readRawBackup(path.join(this.backupDir, filename));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const status = errorMessage.startsWith('Checksum') ? 'mismatch' : 'corrupt';
+      return { filename, status, issues: [errorMessage], warnings, walletsChecked: 0 };
+    }
+
+    const migration = BackupSchema.migrate(rawBackup, filename);
+    if (!migration.valid) {
+      return { filename, status: 'corrupt', issues: [`Unrecognized backup format: ${migration.error}`], warnings, walletsChecked: 0 };
+    }
+
+    const checksum = rawBackup.metadata?.checksum;
+    if (!checksum) {
+      warnings.push('No checksum recorded (written by an older version)');
+    }
+
+    if (!manifestChecksum) {
+      warnings.push('Not listed in backup manifest');
+    } else if (checksum && manifestChecksum !== checksum) {
+      issues.push('Checksum differs from the one recorded in the backup manifest');
+    }
+
+    const migrated = migration.backup!;
+    const wallets = [migrated.mainWallet, ...migrated.subWallets]
+      .filter((wallet): wallet is NonNullable<WalletBackup['mainWallet']> => !!wallet);
+    const storedWalletCount = [rawBackup.mainWallet, ...rawBackup.subWallets]
+      .filter(wallet => wallet && typeof wallet === 'object').length;
+
+    for (const wallet of wallets) {
+      try {
+        WalletSigner.fromBase58(wallet.privateKey, wallet.publicKey).lock();
+      } catch {
+        issues.push(`Private key does not derive stored address ${wallet.publicKey}`);
       }
+    }
+
+    if (rawBackup.metadata?.totalWallets !== undefined && rawBackup.metadata.totalWallets !== storedWalletCount) {
+      issues.push(`Metadata lists ${rawBackup.metadata.totalWallets} wallets but file contains ${storedWalletCount}`);
+    }
+
+    return {
+      filename,
+      status: issues.length > 0 ? 'mismatch' : 'ok',
+      issues,
+      warnings,
+      walletsChecked: wallets.length
     };
   }
 
   public async getAllWalletsFromBackups(): Promise<{
-    mainWallets: Array<WalletBackup['mainWallet'] & { backupFile: string; timestamp: number }>;
+    mainWallets: Array<NonNullable<WalletBackup['mainWallet']> & { backupFile: string; timestamp: number }>;
     subWallets: Array<WalletBackup['subWallets'][0] & { backupFile: string; timestamp: number }>;
   }> {
     const backupFiles = await this.getBackupFiles();
@@ -198,11 +1014,55 @@ export class BackupManager extends EventEmitter {
     };
   }
 
+  /**
+   * Get the session signer for a main wallet keystore ID (its public key).
+   * The key is decrypted once and reused until the keystore is locked.
+   */
+  public async unlockSigner(walletId: string): Promise<WalletSigner> {
+    const cached = this.signers.get(walletId);
+    if (cached && !cached.isLocked()) {
+      return cached;
+    }
+
+    const { mainWallets } = await this.getAllWalletsFromBackups();
+    const wallet = mainWallets.find(w => w && w.publicKey === walletId);
+
+    if (!wallet) {
+      throw new Error(`Main wallet ${walletId} not found in keystore`);
+    }
+
+    const signer = WalletSigner.fromBase58(wallet.privateKey, walletId);
+    this.signers.set(walletId, signer);
+    return signer;
+  }
+
   public async getLatestBackup(): Promise<BackupFile | null> {
     const backupFiles = await this.getBackupFiles();
     return backupFiles.length > 0 ? backupFiles[0] : null;
   }
 
+  /**
+   * Mark sub-wallets as retired by writing a backup that carries them with a
+   * retiredAt time. Older backups are left untouched.
+   * @returns Addresses that were newly retired
+   */
+  public async retireSubWallets(publicKeys: string[]): Promise<string[]> {
+    const { subWallets } = await this.getAllWalletsFromBackups();
+    const retiredAt = Date.now();
+    const retired = subWallets
+      .filter(wallet => publicKeys.includes(wallet.publicKey) && wallet.retiredAt === undefined)
+      .map(({ publicKey, privateKey, createdAt, index }) => ({ publicKey, privateKey, createdAt, index, retiredAt }));
+
+    if (retired.length === 0) {
+      return [];
+    }
+
+    await this.createBackup({ subWallets: retired });
+    const addresses = retired.map(wallet => wallet.publicKey);
+    this.emit('wallets-retired', addresses);
+    return addresses;
+  }
+
   public async updateBackupWithNewWallets(
     existingWallets: WalletBackup['subWallets'],
     newWallets: WalletBackup['subWallets']
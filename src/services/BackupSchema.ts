@@ -0,0 +1,208 @@
+import type { WalletBackup } from './BackupManager';
+
+export interface BackupMigrationResult {
+  valid: boolean;
+  format?: 'legacy' | '1.0.0' | '2.0.0';
+  backup?: WalletBackup;
+  error?: string;
+}
+
+type MainWalletEntry = NonNullable<WalletBackup['mainWallet']>;
+type SubWalletEntry = WalletBackup['subWallets'][number];
+
+export class BackupSchema {
+  private static readonly BASE58 = /^[1-9A-HJ-NP-Za-km-z]+$/;
+  // Older builds filled missing main wallets with this placeholder, and some
+  // re-encrypted backups persisted it
+  private static readonly PLACEHOLDER_PRIVATE_KEY = 'REPLACE_WITH_YOUR_MAIN_WALLET_PRIVATE_KEY_HERE';
+  private static readonly LEGACY_FIELDS = new Set(['timestamp', 'createdAt', 'version', 'mainWallet', 'subWallets']);
+  private static readonly VERSIONED_FIELDS = new Set(['timestamp', 'mainWallet', 'subWallets', 'metadata']);
+
+  /**
+   * Validate a decrypted backup against every known historical format and
+   * convert it to the current WalletBackup shape. Anything that does not
+   * match a known format is rejected rather than guessed at.
+   * @param rawBackup Parsed (and decrypted) file contents
+   * @param filename Backup filename, used as timestamp source for legacy files
+   * @returns Migration result
+   */
+  public static migrate(rawBackup: unknown, filename: string): BackupMigrationResult {
+    try {
+      if (!rawBackup || typeof rawBackup !== 'object' || Array.isArray(rawBackup)) {
+        return { valid: false, error: 'Backup is not a JSON object' };
+      }
+
+      const raw = rawBackup as Record<string, any>;
+      if (raw.metadata !== undefined) {
+        return this.migrateVersioned(raw);
+      }
+      return this.migrateLegacy(raw, filename);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { valid: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Files written with a metadata block (1.0.0 plaintext, 2.0.0 keystore)
+   */
+  private static migrateVersioned(raw: Record<string, any>): BackupMigrationResult {
+    this.assertKnownFields(raw, this.VERSIONED_FIELDS);
+
+    const metadata = raw.metadata;
+    if (!metadata || typeof metadata !== 'object') {
+      throw new Error('metadata must be an object');
+    }
+    if (metadata.version !== '1.0.0' && metadata.version !== '2.0.0') {
+      throw new Error(`Unknown backup version ${JSON.stringify(metadata.version)}`);
+    }
+    if (typeof raw.timestamp !== 'number' || !Number.isFinite(raw.timestamp)) {
+      throw new Error('timestamp must be a number');
+    }
+    if (metadata.checksum !== undefined && typeof metadata.checksum !== 'string') {
+      throw new Error('metadata.checksum must be a string');
+    }
+
+    const mainWallet = this.parseMainWallet(raw.mainWallet, raw.timestamp);
+    const subWallets = this.parseSubWallets(raw.subWallets, raw.timestamp);
+
+    return {
+      valid: true,
+      format: metadata.version,
+      backup: {
+        timestamp: raw.timestamp,
+        mainWallet,
+        subWallets,
+        metadata: {
+          version: metadata.version,
+          createdBy: typeof metadata.createdBy === 'string' ? metadata.createdBy : 'solana-volume-bot',
+          totalWallets: (mainWallet ? 1 : 0) + subWallets.length,
+          ...(metadata.checksum !== undefined ? { checksum: metadata.checksum } : {})
+        }
+      }
+    };
+  }
+
+  /**
+   * Pre-metadata files: { createdAt|timestamp, version?, mainWallet?, subWallets }
+   */
+  private static migrateLegacy(raw: Record<string, any>, filename: string): BackupMigrationResult {
+    this.assertKnownFields(raw, this.LEGACY_FIELDS);
+
+    if (raw.version !== undefined && typeof raw.version !== 'string') {
+      throw new Error('version must be a string');
+    }
+
+    const timestamp = this.parseTime(raw.timestamp ?? raw.createdAt, 'timestamp')
+      ?? this.timestampFromFilename(filename);
+    if (timestamp === undefined) {
+      throw new Error('Legacy backup has no timestamp');
+    }
+
+    const mainWallet = this.parseMainWallet(raw.mainWallet, timestamp);
+    const subWallets = this.parseSubWallets(raw.subWallets, timestamp);
+
+    return {
+      valid: true,
+      format: 'legacy',
+      backup: {
+        timestamp,
+        mainWallet,
+        subWallets,
+        metadata: {
+          version: '1.0.0',
+          createdBy: 'solana-volume-bot',
+          totalWallets: (mainWallet ? 1 : 0) + subWallets.length
+        }
+      }
+    };
+  }
+
+  /**
+   * A missing main wallet is an explicit state (null), never a placeholder
+   */
+  private static parseMainWallet(value: unknown, fallbackTime: number): MainWalletEntry | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('mainWallet must be an object');
+    }
+
+    const wallet = value as Record<string, unknown>;
+    if (wallet.privateKey === this.PLACEHOLDER_PRIVATE_KEY) {
+      return null;
+    }
+
+    return {
+      publicKey: this.parseAddress(wallet.publicKey, 'mainWallet.publicKey'),
+      privateKey: this.parseSecret(wallet.privateKey, 'mainWallet.privateKey'),
+      createdAt: this.parseTime(wallet.createdAt, 'mainWallet.createdAt') ?? fallbackTime
+    };
+  }
+
+  private static parseSubWallets(value: unknown, fallbackTime: number): SubWalletEntry[] {
+    if (!Array.isArray(value)) {
+      throw new Error('subWallets must be an array');
+    }
+
+    return value.map((entry, position) => {
+      const field = `subWallets[${position}]`;
+      if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+        throw new Error(`${field} must be an object`);
+      }
+      if (entry.index !== undefined && (!Number.isInteger(entry.index) || entry.index < 0)) {
+        throw new Error(`${field}.index must be a non-negative integer`);
+      }
+      const retiredAt = this.parseTime(entry.retiredAt, `${field}.retiredAt`);
+
+      return {
+        publicKey: this.parseAddress(entry.publicKey, `${field}.publicKey`),
+        privateKey: this.parseSecret(entry.privateKey, `${field}.privateKey`),
+        createdAt: this.parseTime(entry.createdAt, `${field}.createdAt`) ?? fallbackTime,
+        index: entry.index !== undefined ? entry.index : position,
+        ...(retiredAt !== undefined ? { retiredAt } : {})
+      };
+    });
+  }
+
+  private static parseAddress(value: unknown, field: string): string {
+    if (typeof value !== 'string' || value.length < 32 || value.length > 44 || !this.BASE58.test(value)) {
+      throw new Error(`${field} is not a base58 address`);
+    }
+    return value;
+  }
+
+  private static parseSecret(value: unknown, field: string): string {
+    if (typeof value !== 'string' || value.length < 64 || value.length > 100 || !this.BASE58.test(value)) {
+      throw new Error(`${field} is not a base58 secret key`);
+    }
+    return value;
+  }
+
+  /**
+   * Accepts epoch milliseconds or an ISO date string
+   */
+  private static parseTime(value: unknown, field: string): number | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    const time = typeof value === 'number' ? value : typeof value === 'string' ? new Date(value).getTime() : NaN;
+    if (!Number.isFinite(time)) {
+      throw new Error(`${field} is not a valid date`);
+    }
+    return time;
+  }
+
+  private static timestampFromFilename(filename: string): number | undefined {
+    const match = /^wallets-(\d+)\.json$/.exec(filename);
+    return match ? Number(match[1]) : undefined;
+  }
+
+  private static assertKnownFields(raw: Record<string, unknown>, allowed: Set<string>): void {
+    const unknown = Object.keys(raw).filter(key => !allowed.has(key));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown fields: ${unknown.join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { PublicKey } from '@solana/web3.js';
+
+export interface StartBotRequest {
+  tokenAddress: string;
+  mainWalletId: string;
+  numberOfSubWallets: number;
+  buyAmount: number;
+  sessionDuration: number;
+  licenseKey: string;
+}
+
+export interface SettingsUpdateRequest {
+  cluster?: string;
+  backupDirectory?: string;
+}
+
+export class IpcValidator {
+  private static readonly SECRET_FIELDS = new Set(['privateKey', 'mainWalletPrivateKey', 'secretKey']);
+
+  /**
+   * Require a non-empty string no longer than maxLength
+   */
+  public static requireString(value: unknown, field: string, maxLength: number = 256): string {
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      throw new Error(`${field} must be a non-empty string`);
+    }
+    if (value.length > maxLength) {
+      throw new Error(`${field} is too long`);
+    }
+    return value.trim();
+  }
+
+  /**
+   * Require a base58 Solana address
+   */
+  public static requirePublicKey(value: unknown, field: string): string {
+    const address = this.requireString(value, field, 64);
+    try {
+      return new PublicKey(address).toBase58();
+    } catch {
+      throw new Error(`${field} is not a valid Solana address`);
+    }
+  }
+
+  public static optionalPublicKey(value: unknown, field: string): string | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    return this.requirePublicKey(value, field);
+  }
+
+  public static requireInteger(value: unknown, field: string, min: number, max: number): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`${field} must be an integer between ${min} and ${max}`);
+    }
+    return value;
+  }
+
+  public static requireNumber(value: unknown, field: string, min: number, max: number): number {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      throw new Error(`${field} must be a number between ${min} and ${max}`);
+    }
+    return value;
+  }
+
+  public static validateStartBotRequest(value: unknown): StartBotRequest {
+    if (!value || typeof value !== 'object') {
+      throw new Error('Bot configuration is required');
+    }
+
+    const config = value as Record<string, unknown>;
+    return {
+      tokenAddress: this.requirePublicKey(config.tokenAddress, 'Token address'),
+      mainWalletId: this.requirePublicKey(config.mainWalletId, 'Main wallet'),
+      numberOfSubWallets: this.requireInteger(config.numberOfSubWallets, 'Number of sub-wallets', 1, 100),
+      buyAmount: this.requireNumber(config.buyAmount, 'Buy amount', 0.000001, 1000),
+      sessionDuration: this.requireNumber(config.sessionDuration, 'Session duration', 1, 100000),
+      licenseKey: this.requireString(config.licenseKey, 'License key', 2048)
+    };
+  }
+
+  public static validateSettingsUpdate(value: unknown): SettingsUpdateRequest {
+    if (!value || typeof value !== 'object') {
+      throw new Error('Settings are required');
+    }
+
+    const update = value as Record<string, unknown>;
+    return {
+      ...(update.cluster !== undefined ? { cluster: this.requireString(update.cluster, 'Cluster', 16) } : {}),
+      ...(update.backupDirectory !== undefined
+        ? { backupDirectory: this.requireString(update.backupDirectory, 'Backup directory', 1024) }
+        : {})
+    };
+  }
+
+  /**
+   * Deep-copy a value with every private key field removed, so nothing
+   * secret is ever sent to the renderer
+   */
+  public static redactSecrets<T>(value: T): T {
+    // Objects such as WalletSigner define their own safe serialization
+    if (value && typeof (value as any).toJSON === 'function' && !(value instanceof Date)) {
+      return this.redactSecrets((value as any).toJSON());
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactSecrets(item)) as unknown as T;
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+        if (!this.SECRET_FIELDS.has(key)) {
+          result[key] = this.redactSecrets(entry);
+        }
+      }
+      return result as T;
+    }
+    return value;
+  }
+}
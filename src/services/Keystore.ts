@@ -0,0 +1,146 @@
+import * as crypto from 'crypto';
+
+export interface KeystorePayload {
+  cipher: 'aes-256-gcm';
+  kdf: 'scrypt';
+  kdfparams: {
+    n: number;
+    r: number;
+    p: number;
+    dklen: number;
+    salt: string;
+  };
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+export class Keystore {
+  public static readonly VERSION = '2.0.0';
+
+  // scrypt cost parameters (N=2^15, r=8 -> 32 MiB per derivation)
+  private static readonly SCRYPT_N = 1 << 15;
+  private static readonly SCRYPT_R = 8;
+  private static readonly SCRYPT_P = 1;
+  private static readonly KEY_LENGTH = 32;
+  private static readonly MAX_MEMORY = 64 * 1024 * 1024;
+
+  private passphrase: string | null = null;
+  private sessionSalt: Buffer | null = null;
+  private derivedKeys: Map<string, Buffer> = new Map();
+
+  /**
+   * Set the passphrase used for all subsequent encrypt/decrypt calls
+   * @param passphrase Keystore passphrase
+   */
+  public unlock(passphrase: string): void {
+    if (!passphrase || passphrase.length < 8) {
+      throw new Error('Keystore passphrase must be at least 8 characters');
+    }
+
+    this.lock();
+    this.passphrase = passphrase;
+  }
+
+  /**
+   * Forget the passphrase and wipe all cached derived keys
+   */
+  public lock(): void {
+    for (const key of this.derivedKeys.values()) {
+      key.fill(0);
+    }
+    this.derivedKeys.clear();
+    this.sessionSalt = null;
+    this.passphrase = null;
+  }
+
+  public isUnlocked(): boolean {
+    return this.passphrase !== null;
+  }
+
+  /**
+   * Encrypt a UTF-8 string with the session passphrase
+   * @param plaintext Data to encrypt
+   * @returns Self-describing encrypted payload
+   */
+  public async encrypt(plaintext: string): Promise<KeystorePayload> {
+    // Reuse one salt per session so a batch of backups only pays for one KDF run
+    if (!this.sessionSalt) {
+      this.sessionSalt = crypto.randomBytes(16);
+    }
+
+    const salt = this.sessionSalt;
+    const key = await this.deriveKey(salt, Keystore.SCRYPT_N, Keystore.SCRYPT_R, Keystore.SCRYPT_P, Keystore.KEY_LENGTH);
+    const iv = crypto.randomBytes(12);
+
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+    return {
+      cipher: 'aes-256-gcm',
+      kdf: 'scrypt',
+      kdfparams: {
+        n: Keystore.SCRYPT_N,
+        r: Keystore.SCRYPT_R,
+        p: Keystore.SCRYPT_P,
+        dklen: Keystore.KEY_LENGTH,
+        salt: salt.toString('base64')
+      },
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64')
+    };
+  }
+
+  /**
+   * Decrypt a payload produced by encrypt()
+   * @param payload Encrypted payload
+   * @returns Decrypted UTF-8 string
+   */
+  public async decrypt(payload: KeystorePayload): Promise<string> {
+    if (!payload || payload.cipher !== 'aes-256-gcm' || payload.kdf !== 'scrypt' || !payload.kdfparams) {
+      throw new Error('Unsupported keystore format');
+    }
+
+    const { n, r, p, dklen, salt } = payload.kdfparams;
+    const key = await this.deriveKey(Buffer.from(salt, 'base64'), n, r, p, dklen);
+
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(payload.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(payload.ciphertext, 'base64')),
+        decipher.final()
+      ]);
+      return plaintext.toString('utf-8');
+    } catch {
+      throw new Error('Wrong keystore passphrase or corrupted data');
+    }
+  }
+
+  private async deriveKey(salt: Buffer, n: number, r: number, p: number, dklen: number): Promise<Buffer> {
+    if (!this.passphrase) {
+      throw new Error('Keystore is locked');
+    }
+
+    const cacheKey = `${salt.toString('base64')}:${n}:${r}:${p}:${dklen}`;
+    const cached = this.derivedKeys.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const passphrase = this.passphrase;
+    const key = await new Promise<Buffer>((resolve, reject) => {
+      crypto.scrypt(passphrase, salt, dklen, { N: n, r, p, maxmem: Keystore.MAX_MEMORY }, (error, derived) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(derived);
+        }
+      });
+    });
+
+    this.derivedKeys.set(cacheKey, key);
+    return key;
+  }
+}
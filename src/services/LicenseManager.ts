@@ -1,46 +1,88 @@
 import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface LicensePayload {
+  exp: number;
+  user: string;
+  issued: number;
+}
 
 export interface LicenseValidationResult {
   valid: boolean;
   error?: string;
   expiresAt?: Date;
   remainingTime?: string;
-  payload?: any;
+  payload?: LicensePayload;
 }
 
+/**
+ * Verifies Ed25519-signed license keys of the form VB-<payload>.<signature>
+ * (both base64url). The app only holds the public key; keys are signed
+ * offline with scripts/license-generator.js. Verification is a signature
+ * check, so no secret is ever compared in app code.
+ */
 export class LicenseManager {
-  private static readonly SECRET_KEY = 'VolumeBot-Secret-2025-Solana-Trading';
+  // Vendor's Ed25519 public key (SPKI PEM) in the project root, written by
+  // `node scripts/license-generator.js keygen` and packaged with the app;
+  // packaging refuses to run without it (scripts/check-license-key.js)
+  public static readonly PUBLIC_KEY_PATH = path.join(__dirname, '..', '..', 'license-public-key.pem');
+  private static publicKey: string | null = null;
+  private static readonly PREFIX = 'VB-';
+  private static readonly MAX_KEY_LENGTH = 2048;
+  private static readonly SIGNATURE_LENGTH = 64;
+  private static readonly BASE64URL = /^[A-Za-z0-9_-]+$/;
+  private static readonly PAYLOAD_FIELDS = ['exp', 'user', 'issued'];
 
   /**
    * Validate a license key
    * @param licenseKey License key to validate
+   * @param publicKey Verification key; defaults to the embedded one
    * @returns Validation result
    */
-  public static validateLicenseKey(licenseKey: string): LicenseValidationResult {
+  public static validateLicenseKey(licenseKey: string, publicKey: crypto.KeyLike = this.loadPublicKey()): LicenseValidationResult {
     try {
-      if (!licenseKey || !licenseKey.startsWith('VB-')) {
-        return { valid: false, error: 'Invalid license key format' };
+      if (!publicKey) {
+        return { valid: false, error: 'This build has no license verification key configured' };
       }
 
-      // Extract payload and signature
-      const keyPart = licenseKey.substring(3); // Remove 'VB-' prefix
-      const [payloadB64, signature] = keyPart.split('.');
+      if (typeof licenseKey !== 'string' || licenseKey.trim().length === 0) {
+        return { valid: false, error: 'License key is required' };
+      }
 
-      if (!payloadB64 || !signature) {
-        return { valid: false, error: 'Malformed license key' };
+      const key = licenseKey.trim();
+      if (key.length > this.MAX_KEY_LENGTH) {
+        return { valid: false, error: 'Malformed license key: too long' };
+      }
+      if (!key.startsWith(this.PREFIX)) {
+        return { valid: false, error: 'Invalid license key format: must start with VB-' };
       }
 
-      // Verify signature
-      const hmac = crypto.createHmac('sha256', this.SECRET_KEY);
-      hmac.update(payloadB64);
-      const expectedSignature = hmac.digest('base64');
+      const parts = key.substring(this.PREFIX.length).split('.');
+      if (parts.length !== 2 || !parts[0] || !parts[1]) {
+        return { valid: false, error: 'Malformed license key: expected VB-<payload>.<signature>' };
+      }
+
+      const [payloadB64, signatureB64] = parts;
+      if (!this.BASE64URL.test(payloadB64) || !this.BASE64URL.test(signatureB64)) {
+        return { valid: false, error: 'Malformed license key: invalid base64url encoding' };
+      }
+
+      const signature = Buffer.from(signatureB64, 'base64url');
+      if (signature.length !== this.SIGNATURE_LENGTH) {
+        return { valid: false, error: 'Malformed license key: signature has the wrong length' };
+      }
 
-      if (signature !== expectedSignature) {
+      // The signature covers the encoded payload exactly as it appears in the key
+      if (!crypto.verify(null, Buffer.from(payloadB64, 'utf-8'), publicKey, signature)) {
         return { valid: false, error: 'Invalid license key signature' };
       }
 
-      // Decode payload
-      const payload = JSON.parse(Buffer.from(payloadB64, 'base64').toString());
+      const payloadResult = this.parsePayload(Buffer.from(payloadB64, 'base64url').toString('utf-8'));
+      if (typeof payloadResult === 'string') {
+        return { valid: false, error: `Malformed license payload: ${payloadResult}` };
+      }
+      const payload = payloadResult;
 
       // Check expiry
       const now = Date.now();
@@ -66,6 +108,13 @@ export class LicenseManager {
     }
   }
 
+  /**
+   * @returns True if this build embeds a license verification key
+   */
+  public static hasPublicKey(): boolean {
+    return this.loadPublicKey().length > 0;
+  }
+
   /**
    * Check if license is valid and not expired
    * @param licenseKey License key to check
@@ -75,4 +124,54 @@ export class LicenseManager {
     const result = this.validateLicenseKey(licenseKey);
     return result.valid;
   }
+
+  /**
+   * @returns The embedded public key, or an empty string if the build has none
+   */
+  private static loadPublicKey(): string {
+    if (this.publicKey === null) {
+      try {
+        this.publicKey = fs.readFileSync(this.PUBLIC_KEY_PATH, 'utf-8').trim();
+      } catch {
+        return '';
+      }
+    }
+    return this.publicKey;
+  }
+
+  /**
+   * @returns The payload, or a description of what is wrong with it
+   */
+  private static parsePayload(json: string): LicensePayload | string {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      return 'not valid JSON';
+    }
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      return 'not a JSON object';
+    }
+
+    const payload = raw as Record<string, unknown>;
+    const unknownFields = Object.keys(payload).filter(field => !this.PAYLOAD_FIELDS.includes(field));
+    if (unknownFields.length > 0) {
+      return `unknown fields ${unknownFields.join(', ')}`;
+    }
+    if (!Number.isSafeInteger(payload.exp) || (payload.exp as number) <= 0) {
+      return 'exp must be a timestamp in milliseconds';
+    }
+    if (!Number.isSafeInteger(payload.issued) || (payload.issued as number) <= 0) {
+      return 'issued must be a timestamp in milliseconds';
+    }
+    if ((payload.issued as number) > (payload.exp as number)) {
+      return 'issued is after exp';
+    }
+    if (typeof payload.user !== 'string' || payload.user.length === 0 || payload.user.length > 128) {
+      return 'user must be a string of 1 to 128 characters';
+    }
+
+    return { exp: payload.exp as number, user: payload.user, issued: payload.issued as number };
+  }
 }
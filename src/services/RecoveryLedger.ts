@@ -0,0 +1,106 @@
+import * as fs from 'fs/promises';
+
+// close: moves leftover tokens to the main wallet and closes the token accounts
+export type RecoveryStep = 'sell' | 'close' | 'transfer';
+
+// sent: signed and about to be submitted, outcome unknown
+// expired: never landed and its blockhash is no longer valid, safe to retry
+export type RecoveryTransactionStatus = 'sent' | 'confirmed' | 'failed' | 'expired';
+
+export interface RecoveryLedgerEntry {
+  at: number;
+  runId: string;
+  type: 'run-started' | 'run-completed' | 'transaction';
+  wallet?: string;
+  step?: RecoveryStep;
+  status?: RecoveryTransactionStatus;
+  signature?: string;
+  lamports?: number;
+  lastValidBlockHeight?: number;
+  error?: string;
+}
+
+/**
+ * Append-only JSON-lines log of every recovery transaction. Each line is
+ * flushed to disk before the transaction it describes is sent.
+ */
+export class RecoveryLedger {
+  private filepath: string;
+
+  constructor(filepath: string) {
+    this.filepath = filepath;
+  }
+
+  public async append(entry: Omit<RecoveryLedgerEntry, 'at'>): Promise<void> {
+    const handle = await fs.open(this.filepath, 'a+', 0o600);
+    try {
+      // A crash mid-write leaves a partial last line; start a new one so this entry is not swallowed by it
+      const { size } = await handle.stat();
+      if (size > 0) {
+        const lastByte = Buffer.alloc(1);
+        await handle.read(lastByte, 0, 1, size - 1);
+        if (lastByte[0] !== 0x0a) {
+          await handle.write('\n');
+        }
+      }
+      await handle.write(JSON.stringify({ at: Date.now(), ...entry }) + '\n');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  }
+
+  public async readEntries(): Promise<RecoveryLedgerEntry[]> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.filepath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: RecoveryLedgerEntry[] = [];
+    for (const line of data.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A crash mid-write can leave a partial last line
+        console.warn('Skipping unreadable recovery ledger line');
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * @returns The id of the latest run that never completed, if any
+   */
+  public async findUnfinishedRun(): Promise<string | null> {
+    const entries = await this.readEntries();
+    const started = entries.filter(entry => entry.type === 'run-started');
+    const latest = started[started.length - 1];
+
+    if (!latest) {
+      return null;
+    }
+
+    const completed = entries.some(entry => entry.type === 'run-completed' && entry.runId === latest.runId);
+    return completed ? null : latest.runId;
+  }
+
+  /**
+   * Latest ledger state of every transaction in a run, keyed by signature
+   */
+  public async getTransactions(runId: string): Promise<Map<string, RecoveryLedgerEntry>> {
+    const transactions = new Map<string, RecoveryLedgerEntry>();
+    for (const entry of await this.readEntries()) {
+      if (entry.type === 'transaction' && entry.runId === runId && entry.signature) {
+        transactions.set(entry.signature, { ...transactions.get(entry.signature), ...entry });
+      }
+    }
+    return transactions;
+  }
+
+  public getFilePath(): string {
+    return this.filepath;
+  }
+}
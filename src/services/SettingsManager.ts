@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type SolanaCluster = 'local' | 'devnet' | 'mainnet';
+
+export interface AppSettings {
+  backupDirectory: string;
+  cluster: SolanaCluster;
+  // Old backup locations the user already imported or declined to import
+  handledLegacyDirectories: string[];
+}
+
+export interface LegacyBackupLocation {
+  directory: string;
+  backupFiles: number;
+}
+
+/**
+ * Persists user settings as JSON in the app's user-data directory, so the
+ * wallet backups no longer depend on the folder the app was launched from
+ */
+export class SettingsManager {
+  public static readonly CLUSTER_URLS: Record<SolanaCluster, string> = {
+    local: 'http://127.0.0.1:8899',
+    devnet: 'https://api.devnet.solana.com',
+    mainnet: 'https://api.mainnet-beta.solana.com'
+  };
+  private static readonly FILENAME = 'settings.json';
+
+  private filepath: string;
+  private settings: AppSettings;
+
+  /**
+   * @param userDataDirectory Per-user app data directory (app.getPath('userData'))
+   */
+  constructor(userDataDirectory: string) {
+    this.filepath = path.join(userDataDirectory, SettingsManager.FILENAME);
+    this.settings = this.load({
+      backupDirectory: path.join(userDataDirectory, 'wallet-backups'),
+      cluster: 'mainnet',
+      handledLegacyDirectories: []
+    });
+  }
+
+  public getSettings(): AppSettings {
+    return { ...this.settings, handledLegacyDirectories: [...this.settings.handledLegacyDirectories] };
+  }
+
+  public getBackupDirectory(): string {
+    return this.settings.backupDirectory;
+  }
+
+  public getCluster(): SolanaCluster {
+    return this.settings.cluster;
+  }
+
+  public getRpcUrl(): string {
+    return SettingsManager.CLUSTER_URLS[this.settings.cluster];
+  }
+
+  /**
+   * Validate and save a settings change. Takes effect on the next start.
+   * @param update Fields to change
+   * @returns The saved settings
+   */
+  public async update(update: { backupDirectory?: string; cluster?: string }): Promise<AppSettings> {
+    const next = { ...this.settings };
+
+    if (update.cluster !== undefined) {
+      next.cluster = SettingsManager.parseCluster(update.cluster);
+    }
+    if (update.backupDirectory !== undefined) {
+      next.backupDirectory = SettingsManager.parseDirectory(update.backupDirectory);
+      await fs.promises.mkdir(next.backupDirectory, { recursive: true });
+    }
+
+    await this.save(next);
+    return this.getSettings();
+  }
+
+  /**
+   * Find wallet-backups folders that older versions created next to the
+   * working directory or the portable executable
+   * @returns Locations with backups that have not been handled yet
+   */
+  public async findLegacyBackupLocations(candidates: string[] = SettingsManager.legacyCandidates()): Promise<LegacyBackupLocation[]> {
+    const current = path.resolve(this.settings.backupDirectory);
+    const seen = new Set<string>();
+    const locations: LegacyBackupLocation[] = [];
+
+    for (const candidate of candidates) {
+      const directory = path.resolve(candidate);
+      if (directory === current || seen.has(directory) || this.settings.handledLegacyDirectories.includes(directory)) {
+        continue;
+      }
+      seen.add(directory);
+
+      try {
+        const files = await fs.promises.readdir(directory);
+        const backupFiles = files.filter(file => /^wallets-\d+\.json$/.test(file)).length;
+        if (backupFiles > 0) {
+          locations.push({ directory, backupFiles });
+        }
+      } catch {
+        // Directory does not exist
+      }
+    }
+
+    return locations;
+  }
+
+  /**
+   * Stop offering to import a legacy location
+   */
+  public async markLegacyDirectoryHandled(directory: string): Promise<void> {
+    const resolved = path.resolve(directory);
+    if (!this.settings.handledLegacyDirectories.includes(resolved)) {
+      await this.save({
+        ...this.settings,
+        handledLegacyDirectories: [...this.settings.handledLegacyDirectories, resolved]
+      });
+    }
+  }
+
+  private static legacyCandidates(): string[] {
+    const candidates = [
+      path.join(process.cwd(), 'wallet-backups'),
+      path.join(path.dirname(process.execPath), 'wallet-backups')
+    ];
+    // Set by the electron-builder portable launcher to the folder the .exe was started from
+    if (process.env.PORTABLE_EXECUTABLE_DIR) {
+      candidates.push(path.join(process.env.PORTABLE_EXECUTABLE_DIR, 'wallet-backups'));
+    }
+    return candidates;
+  }
+
+  private static parseCluster(value: unknown): SolanaCluster {
+    if (typeof value !== 'string' || !Object.prototype.hasOwnProperty.call(SettingsManager.CLUSTER_URLS, value)) {
+      throw new Error(`Unknown cluster ${JSON.stringify(value)}`);
+    }
+    return value as SolanaCluster;
+  }
+
+  private static parseDirectory(value: unknown): string {
+    if (typeof value !== 'string' || !path.isAbsolute(value)) {
+      throw new Error('Backup directory must be an absolute path');
+    }
+    return path.normalize(value);
+  }
+
+  /**
+   * Read settings synchronously; services are wired up from them at startup.
+   * A missing file means defaults, an invalid field falls back to its default.
+   */
+  private load(defaults: AppSettings): AppSettings {
+    let raw: any;
+    try {
+      raw = JSON.parse(fs.readFileSync(this.filepath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`⚠ Ignoring unreadable settings file ${this.filepath}`);
+      }
+      return defaults;
+    }
+
+    const settings = { ...defaults };
+    try {
+      settings.cluster = SettingsManager.parseCluster(raw?.cluster ?? defaults.cluster);
+    } catch (error) {
+      console.warn(`⚠ ${error instanceof Error ? error.message : error} in settings, using ${defaults.cluster}`);
+    }
+    try {
+      settings.backupDirectory = SettingsManager.parseDirectory(raw?.backupDirectory ?? defaults.backupDirectory);
+    } catch (error) {
+      console.warn(`⚠ Invalid backup directory in settings, using ${defaults.backupDirectory}`);
+    }
+    if (Array.isArray(raw?.handledLegacyDirectories)) {
+      settings.handledLegacyDirectories = raw.handledLegacyDirectories.filter((entry: unknown) => typeof entry === 'string');
+    }
+
+    return settings;
+  }
+
+  private async save(settings: AppSettings): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filepath), { recursive: true });
+    const tempPath = `${this.filepath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(settings, null, 2));
+    await fs.promises.rename(tempPath, this.filepath);
+    this.settings = settings;
+  }
+}
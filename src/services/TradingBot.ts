@@ -5,10 +5,11 @@ import axios from 'axios';
 import { WalletManager } from './WalletManager';
 import { BackupManager } from './BackupManager';
 import { LicenseManager } from './LicenseManager';
+import { WalletSigner } from './WalletSigner';
 
 export interface TradingConfig {
   tokenAddress: string;
-  mainWalletPrivateKey: string;
+  mainWallet: WalletSigner;
   numberOfSubWallets: number;
   buyAmount: number; // in SOL
   sessionDuration: number; // in minutes
@@ -94,89 +95,26 @@ export class TradingBot extends EventEmitter {
       this.resetStats();
       this.stats.startTime = Date.now();
 
-      this.log('info', 'Starting trading bot...', { config });
-      
-      // Debug: Log received configuration
-      console.log('🔍 RECEIVED CONFIG:', {
+      this.log('info', 'Starting trading bot...', {
+        tokenAddress: config.tokenAddress,
         numberOfSubWallets: config.numberOfSubWallets,
-        type: typeof config.numberOfSubWallets,
-        tokenAddress: config.tokenAddress ? config.tokenAddress.substring(0, 8) + '...' : 'none',
-        buyAmount: config.buyAmount,
-        mainWalletKeyLength: config.mainWalletPrivateKey ? config.mainWalletPrivateKey.length : 0
+        buyAmount: config.buyAmount
       });
 
       // Validate main wallet
-      const mainKeypair = Keypair.fromSecretKey(bs58.decode(config.mainWalletPrivateKey));
-      this.log('info', `Main wallet: ${mainKeypair.publicKey.toString()}`);
-
-      // Get ALL existing sub-wallets from ALL backup files
-      this.log('info', 'Collecting all sub-wallets from backup files...');
-      const allWallets = await this.walletManager.getAllWallets();
-      
-      if (allWallets.subWallets.length === 0) {
-        this.log('info', 'No existing sub-wallets found, creating new ones...');
-        console.log(`🆕 Creating ${config.numberOfSubWallets} new sub-wallets...`);
-        // Only create new wallets if none exist
-        const subWalletsResult = await this.walletManager.createSubWallets(config.numberOfSubWallets);
-        if (!subWalletsResult.success || !subWalletsResult.wallets) {
-          throw new Error(subWalletsResult.error || 'Failed to create sub-wallets');
-        }
-        this.subWallets = subWalletsResult.wallets;
-      } else {
-        // Use ONLY the number of wallets requested by config
-        const availableWallets = allWallets.subWallets.slice(0, config.numberOfSubWallets);
-        this.subWallets = availableWallets.map(wallet => ({
-          publicKey: wallet.publicKey, // Keep as string, not PublicKey object
-          privateKey: wallet.privateKey, // Use consistent naming
-          balance: wallet.balance
-        }));
-        this.log('info', `Found ${allWallets.subWallets.length} existing sub-wallets, using ${config.numberOfSubWallets} of them`);
-        
-        console.log(`🔍 DEBUGGING WALLET SELECTION:`);
-        console.log(`  Available: ${allWallets.subWallets.length}`);
-        console.log(`  Requested: ${config.numberOfSubWallets}`);
-        console.log(`  Will use: ${this.subWallets.length}`);
-        
-        // If we need more wallets than exist, create additional ones
-        if (this.subWallets.length < config.numberOfSubWallets) {
-          const additionalNeeded = config.numberOfSubWallets - this.subWallets.length;
-          console.log(`📈 Need to create ${additionalNeeded} additional wallets (have ${this.subWallets.length}, want ${config.numberOfSubWallets})`);
-          this.log('info', `Creating ${additionalNeeded} additional sub-wallets...`);
-          
-          const additionalResult = await this.walletManager.createSubWallets(additionalNeeded);
-          if (additionalResult.success && additionalResult.wallets) {
-            this.subWallets.push(...additionalResult.wallets);
-            console.log(`✅ Successfully added ${additionalResult.wallets.length} new wallets`);
-            
-            console.log(`🔍 AFTER ADDING NEW WALLETS:`);
-            this.subWallets.forEach((wallet, index) => {
-              console.log(`  [${index}] ${wallet.publicKey.substring(0, 8)}...`);
-            });
-          } else {
-            console.log(`❌ Failed to create additional wallets: ${additionalResult.error}`);
-            this.log('error', `Failed to create ${additionalNeeded} additional wallets: ${additionalResult.error}`);
-          }
-        }
+      if (config.mainWallet.isLocked()) {
+        throw new Error('Main wallet is locked - unlock the keystore first');
       }
-
-      // Final validation: Ensure we have the correct number of wallets
-      if (this.subWallets.length !== config.numberOfSubWallets) {
-        this.log('warning', `Expected ${config.numberOfSubWallets} wallets, but have ${this.subWallets.length} wallets`);
-        
-        // If we still don't have enough wallets, try one more time
-        if (this.subWallets.length < config.numberOfSubWallets) {
-          const stillNeeded = config.numberOfSubWallets - this.subWallets.length;
-          this.log('info', `Attempting to create ${stillNeeded} more wallets...`);
-          
-          const retryResult = await this.walletManager.createSubWallets(stillNeeded);
-          if (retryResult.success && retryResult.wallets) {
-            this.subWallets.push(...retryResult.wallets);
-            console.log(`🔄 RETRY: Successfully added ${retryResult.wallets.length} more wallets`);
-          } else {
-            this.log('error', `Retry failed: ${retryResult.error}`);
-          }
-        }
+      this.log('info', `Main wallet: ${config.mainWallet.publicKey.toString()}`);
+
+      // createSubWallets reuses active wallets from the backups and only creates
+      // what is missing; wallets retired by a previous recovery are never picked
+      this.log('info', 'Collecting sub-wallets from backup files...');
+      const subWalletsResult = await this.walletManager.createSubWallets(config.numberOfSubWallets);
+      if (!subWalletsResult.success || !subWalletsResult.wallets) {
+        throw new Error(subWalletsResult.error || 'Failed to create sub-wallets');
       }
+      this.subWallets = subWalletsResult.wallets;
 
       this.stats.activeWallets = this.subWallets.length;
       this.log('info', `Using ${this.subWallets.length} sub-wallets for trading`);
@@ -285,7 +223,7 @@ export class TradingBot extends EventEmitter {
           
           // NOW call recovery WITH tokenAddress to ensure any remaining tokens are sold
           const recoveryResult = await this.walletManager.recoverAllFunds(
-            this.config!.mainWalletPrivateKey, 
+            this.config!.mainWallet,
             this.config!.tokenAddress  // CRITICAL: Pass token address for double-check
           );
           
@@ -313,7 +251,7 @@ export class TradingBot extends EventEmitter {
     const subWalletAddresses = this.subWallets.map(w => w.publicKey);
 
     const result = await this.walletManager.distributeToSubWallets(
-      this.config.mainWalletPrivateKey,
+      this.config.mainWallet,
       subWalletAddresses,
       this.config.buyAmount + 0.00001 // Ultra-minimal: only for transfer success
     );
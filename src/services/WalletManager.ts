@@ -1,23 +1,52 @@
-import { Connection, Keypair, PublicKey, LAMPORTS_PER_SOL, Transaction, SystemProgram, VersionedTransaction } from '@solana/web3.js';
-import { getAssociatedTokenAddress } from '@solana/spl-token';
+import {
+  Commitment,
+  Connection,
+  Keypair,
+  PublicKey,
+  LAMPORTS_PER_SOL,
+  SendTransactionError,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  SystemProgram,
+  TransactionInstruction,
+  VersionedTransaction
+} from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddress,
+  getAssociatedTokenAddressSync,
+  NATIVE_MINT,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID
+} from '@solana/spl-token';
 import { EventEmitter } from 'events';
+import * as path from 'path';
 import * as bs58 from 'bs58';
 import { BackupManager, WalletBackup } from './BackupManager';
+import { WalletSigner } from './WalletSigner';
+import { RecoveryLedger, RecoveryStep, RecoveryTransactionStatus } from './RecoveryLedger';
 
 export interface WalletInfo {
   publicKey: string;
   privateKey: string;
   balance: number;
-      console.log(`🔑 Main wallet address: ${mainKeypair.publicKey.toString()}`);
-      console.log(`📊 Main wallet balance: ${mainBalanceSOL.toFixed(6)} SOL`);
-      console.log(`💰 Total needed: ${totalNeeded.toFixed(6)} SOL for ${subWalletAddresses.length} wallets`);
-      
-      // REMOVED: Stupid balance check that was failing
-      // The bot will try each transaction individually and handle failures properly
-
-      for (let i = 0; i < subWalletAddresses.length; i++) { number;
+  createdAt: number;
   backupFile?: string;
   index?: number;
+  retiredAt?: number;
+}
+
+interface TokenAccountInfo {
+  address: PublicKey;
+  mint: PublicKey;
+  programId: PublicKey;
+  amount: bigint;
+  decimals: number;
+  uiAmount: string;
+  lamports: number;
+  frozen: boolean;
 }
 
 export interface WalletBalances {
@@ -27,26 +56,70 @@ export interface WalletBalances {
   lastUpdated: number;
 }
 
+export interface RecoveryPlanWallet {
+  publicKey: string;
+  backupFile?: string;
+  solBalance: number;
+  retiredAt?: number;
+  // transfer: moved to the main wallet's token account; every account is then closed
+  tokens: Array<{ mint: string; amount: string; rentLamports: number; action: 'sell' | 'transfer' | 'close' | 'frozen' }>;
+  solToMove: number;
+  rentReclaimed: number;
+  // Paid by the main wallet
+  estimatedFees: number;
+  rentLeftBehind: number;
+  status: 'recover' | 'skip' | 'already-recovered' | 'in-flight';
+  note?: string;
+}
+
+export interface RecoveryPlan {
+  createdAt: number;
+  mainWallet: string;
+  tokenAddress?: string;
+  mainWalletBalance: number;
+  resumesRun?: string;
+  wallets: RecoveryPlanWallet[];
+  totals: {
+    solToMove: number;
+    rentReclaimed: number;
+    estimatedFees: number;
+    rentLeftBehind: number;
+    walletsToRecover: number;
+  };
+}
+
 export class WalletManager extends EventEmitter {
+  private static readonly SIGNATURE_FEE_LAMPORTS = 5000;
+  // Each token account needs up to three instructions; keep transactions well under the size limit
+  private static readonly TOKEN_ACCOUNTS_PER_TRANSACTION = 4;
+
   private connection: Connection;
   private backupManager: BackupManager;
+  private recoveryLedger: RecoveryLedger;
 
-  constructor(backupManager: BackupManager) {
+  /**
+   * @param backupManager Source of all wallet keys
+   * @param connection RPC connection for the configured cluster; defaults to Solana mainnet
+   */
+  constructor(backupManager: BackupManager, connection?: Connection) {
     super();
     this.backupManager = backupManager;
+    this.recoveryLedger = new RecoveryLedger(path.join(backupManager.getBackupDirectory(), BackupManager.LEDGER_FILENAME));
     // Using Solana mainnet RPC endpoint
-    this.connection = new Connection('https://api.mainnet-beta.solana.com', 'confirmed');
+    this.connection = connection ?? new Connection('https://api.mainnet-beta.solana.com', 'confirmed');
   }
 
   public async createSubWallets(count: number): Promise<{ success: boolean; wallets?: WalletInfo[]; error?: string }> {
     try {
       // Get existing wallets from backups
       const existingWallets = await this.backupManager.getAllWalletsFromBackups();
-      const currentSubWalletCount = existingWallets.subWallets.length;
+      // Retired wallets were emptied by recovery and are never traded with again
+      const activeWallets = existingWallets.subWallets.filter(wallet => wallet.retiredAt === undefined);
+      const currentSubWalletCount = activeWallets.length;
 
       if (currentSubWalletCount >= count) {
         // Return the first 'count' sub-wallets
-        const selectedWallets = existingWallets.subWallets
+        const selectedWallets = activeWallets
           .slice(0, count)
           .map(wallet => ({
             publicKey: wallet.publicKey,
@@ -70,7 +143,7 @@ export class WalletManager extends EventEmitter {
           publicKey: keypair.publicKey.toString(),
           privateKey: bs58.encode(keypair.secretKey),
           createdAt: Date.now(),
-          index: currentSubWalletCount + i
+          index: existingWallets.subWallets.length + i
         };
         newWallets.push(wallet);
       }
@@ -81,8 +154,8 @@ export class WalletManager extends EventEmitter {
         newWallets
       );
 
-      // Return all sub-wallets (existing + new)
-      const allSubWallets = [...existingWallets.subWallets, ...newWallets]
+      // Return all active sub-wallets (existing + new)
+      const allSubWallets = [...activeWallets, ...newWallets]
         .slice(0, count)
         .map(wallet => ({
           publicKey: wallet.publicKey,
@@ -92,7 +165,7 @@ export class WalletManager extends EventEmitter {
           index: wallet.index
         }));
 
-      this.emit('wallet-update', { subWallets: allSubWallets });
+      this.emit('wallet-update', { subWallets: allSubWallets.map(({ privateKey, ...wallet }) => wallet) });
       
       return { success: true, wallets: allSubWallets };
     } catch (error) {
@@ -101,6 +174,36 @@ export class WalletManager extends EventEmitter {
     }
   }
 
+  public async importMainWallet(privateKey: string): Promise<{ success: boolean; walletId?: string; error?: string }> {
+    try {
+      let keypair: Keypair;
+      try {
+        keypair = Keypair.fromSecretKey(bs58.decode(privateKey));
+      } catch {
+        return { success: false, error: 'Invalid main wallet private key' };
+      }
+
+      const walletId = keypair.publicKey.toString();
+      const existing = await this.backupManager.getAllWalletsFromBackups();
+
+      if (!existing.mainWallets.some(wallet => wallet.publicKey === walletId)) {
+        await this.backupManager.createBackup({
+          mainWallet: {
+            publicKey: walletId,
+            privateKey: bs58.encode(keypair.secretKey),
+            createdAt: Date.now()
+          },
+          subWallets: []
+        });
+      }
+
+      return { success: true, walletId };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, error: errorMessage };
+    }
+  }
+
   public async getAllWallets(): Promise<{
     mainWallets: WalletInfo[];
     subWallets: WalletInfo[];
@@ -132,7 +235,8 @@ export class WalletManager extends EventEmitter {
         balance: 0,
         createdAt: wallet.createdAt,
         backupFile: wallet.backupFile,
-        index: wallet.index
+        index: wallet.index,
+        retiredAt: wallet.retiredAt
       }));
 
       console.log(`✅ Returning ${mainWallets.length} main wallets and ${subWallets.length} sub-wallets`);
@@ -203,31 +307,186 @@ export class WalletManager extends EventEmitter {
     }
   }
 
-  public async recoverAllFunds(mainWalletPrivateKey: string, tokenAddress?: string): Promise<{
+  /**
+   * Dry run of recoverAllFunds: reads balances and the recovery ledger but
+   * signs and sends nothing
+   * @param mainWalletAddress Address funds would be sent to
+   * @param tokenAddress Optional token that would be sold first
+   */
+  public async planRecovery(mainWalletAddress: string, tokenAddress?: string): Promise<RecoveryPlan> {
+    const wallets = await this.getAllWallets();
+    const resumesRun = await this.recoveryLedger.findUnfinishedRun();
+    const ledgerTransactions = resumesRun
+      ? [...(await this.recoveryLedger.getTransactions(resumesRun)).values()]
+      : [];
+    const mainWallet = new PublicKey(mainWalletAddress);
+
+    const plan: RecoveryPlan = {
+      createdAt: Date.now(),
+      mainWallet: mainWalletAddress,
+      tokenAddress,
+      mainWalletBalance: (await this.connection.getBalance(mainWallet)) / LAMPORTS_PER_SOL,
+      resumesRun: resumesRun || undefined,
+      wallets: [],
+      totals: { solToMove: 0, rentReclaimed: 0, estimatedFees: 0, rentLeftBehind: 0, walletsToRecover: 0 }
+    };
+    // Main wallet token accounts already checked or already counted as new
+    const mainTokenAccounts = new Set<string>();
+
+    for (const wallet of wallets.subWallets) {
+      const owner = new PublicKey(wallet.publicKey);
+      const lamports = await this.connection.getBalance(owner);
+      const solBalance = lamports / LAMPORTS_PER_SOL;
+
+      const tokenAccounts = await this.getTokenAccounts(owner);
+      const closable = tokenAccounts.filter(account => !account.frozen);
+      const tokens = tokenAccounts.map(account => ({
+        mint: account.mint.toBase58(),
+        amount: account.uiAmount,
+        rentLamports: account.lamports,
+        action: account.frozen ? 'frozen' as const
+          : account.mint.toBase58() === tokenAddress && account.amount > 0n ? 'sell' as const
+          : this.needsTokenTransfer(account) ? 'transfer' as const
+          : 'close' as const
+      }));
+      const closableRent = closable.reduce((sum, account) => sum + account.lamports, 0) / LAMPORTS_PER_SOL;
+      const frozenRent = tokenAccounts.reduce((sum, account) => sum + (account.frozen ? account.lamports : 0), 0) / LAMPORTS_PER_SOL;
+
+      const entry: RecoveryPlanWallet = {
+        publicKey: wallet.publicKey,
+        backupFile: wallet.backupFile,
+        retiredAt: wallet.retiredAt,
+        solBalance,
+        tokens,
+        solToMove: 0,
+        rentReclaimed: 0,
+        estimatedFees: 0,
+        rentLeftBehind: solBalance + closableRent + frozenRent,
+        status: 'skip'
+      };
+
+      const walletTransactions = ledgerTransactions.filter(tx => tx.wallet === wallet.publicKey);
+      if (walletTransactions.some(tx => tx.status === 'sent')) {
+        entry.status = 'in-flight';
+        entry.note = 'A transaction from the interrupted run is still unconfirmed';
+      } else if (walletTransactions.some(tx => tx.step === 'transfer' && tx.status === 'confirmed')) {
+        entry.status = 'already-recovered';
+        entry.note = `Already recovered in run ${resumesRun}`;
+      } else if (lamports === 0 && closable.length === 0) {
+        entry.note = wallet.retiredAt !== undefined ? 'Retired and empty' : 'Already empty';
+      } else {
+        const notes: string[] = [];
+        // The swap is the only transaction the sub-wallet pays for itself
+        const sellFee = tokens.some(token => token.action === 'sell') ? WalletManager.SIGNATURE_FEE_LAMPORTS : 0;
+        const transactionCount = Math.ceil(closable.length / WalletManager.TOKEN_ACCOUNTS_PER_TRANSACTION) + (lamports > 0 ? 1 : 0);
+
+        let newAccountRent = 0;
+        for (const account of closable.filter(account => this.needsTokenTransfer(account))) {
+          const destination = getAssociatedTokenAddressSync(account.mint, mainWallet, false, account.programId).toBase58();
+          if (!mainTokenAccounts.has(destination)) {
+            mainTokenAccounts.add(destination);
+            if (!(await this.connection.getAccountInfo(new PublicKey(destination)))) {
+              newAccountRent += account.lamports;
+            }
+          }
+        }
+
+        entry.status = 'recover';
+        entry.solToMove = Math.max(lamports - sellFee, 0) / LAMPORTS_PER_SOL;
+        entry.rentReclaimed = closableRent;
+        // Two signatures per transaction: the main wallet as fee payer and the sub-wallet
+        entry.estimatedFees = (transactionCount * 2 * WalletManager.SIGNATURE_FEE_LAMPORTS + newAccountRent) / LAMPORTS_PER_SOL;
+        entry.rentLeftBehind = frozenRent;
+
+        if (sellFee > 0) {
+          notes.push('Token sale proceeds are not included in solToMove');
+        }
+        if (newAccountRent > 0) {
+          notes.push('Fees include rent for new main wallet token accounts');
+        }
+        if (frozenRent > 0) {
+          notes.push('Frozen token accounts cannot be closed; the wallet will not be retired');
+        }
+        entry.note = notes.join('; ') || undefined;
+      }
+
+      plan.wallets.push(entry);
+      plan.totals.solToMove += entry.solToMove;
+      plan.totals.rentReclaimed += entry.rentReclaimed;
+      plan.totals.estimatedFees += entry.estimatedFees;
+      plan.totals.rentLeftBehind += entry.rentLeftBehind;
+      if (entry.status === 'recover') {
+        plan.totals.walletsToRecover++;
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Empty every sub-wallet into the main wallet: sell the traded token, move
+   * any other token balances, close all token accounts and transfer the whole
+   * SOL balance. The main wallet pays every fee except the swap, so nothing
+   * is left behind. Emptied wallets are marked retired in the backups.
+   */
+  public async recoverAllFunds(mainWallet: WalletSigner, tokenAddress?: string): Promise<{
     success: boolean;
     recoveredAmount?: number;
+    rentReclaimed?: number;
     transactions?: string[];
+    runId?: string;
+    resumed?: boolean;
+    pendingWallets?: string[];
+    retiredWallets?: string[];
     error?: string;
   }> {
     try {
       console.log(`Starting fund recovery...`);
       
-      if (!mainWalletPrivateKey || mainWalletPrivateKey.length < 50) {
-        return { success: false, error: 'Invalid main wallet private key' };
+      if (mainWallet.isLocked()) {
+        return { success: false, error: 'Main wallet is locked' };
+      }
+
+      const mainBalance = await this.connection.getBalance(mainWallet.publicKey);
+      if (mainBalance < 2 * WalletManager.SIGNATURE_FEE_LAMPORTS) {
+        return { success: false, error: 'Main wallet needs SOL to pay the recovery transaction fees' };
       }
 
-      const mainKeypair = Keypair.fromSecretKey(bs58.decode(mainWalletPrivateKey));
       const wallets = await this.getAllWallets();
       const transactions: string[] = [];
       let totalRecovered = 0;
+      let totalRentReclaimed = 0;
+
+      // Pick up an interrupted run instead of starting over
+      let runId = await this.recoveryLedger.findUnfinishedRun();
+      const resumed = runId !== null;
+      if (runId) {
+        console.log(`Resuming interrupted recovery run ${runId}`);
+      } else {
+        runId = `recovery-${Date.now()}`;
+        await this.recoveryLedger.append({ runId, type: 'run-started' });
+      }
 
-      console.log(`Main wallet: ${mainKeypair.publicKey.toString()}`);
+      const { recoveredWallets, inFlightWallets } = await this.reconcileRecoveryRun(runId);
+      const pendingWallets = new Set(inFlightWallets);
+      const emptiedWallets = new Set(recoveredWallets);
+
+      console.log(`Main wallet: ${mainWallet.publicKey.toString()}`);
       console.log(`Found ${wallets.subWallets.length} sub-wallets to recover from`);
 
-      // Process each sub-wallet: first sell tokens, then transfer SOL
+      // Process each sub-wallet: sell tokens, close token accounts, then transfer SOL
       for (let i = 0; i < wallets.subWallets.length; i++) {
         const wallet = wallets.subWallets[i];
         const walletShort = wallet.publicKey.substring(0, 8);
+
+        if (recoveredWallets.has(wallet.publicKey)) {
+          console.log(`[${i + 1}/${wallets.subWallets.length}] ✓ ${walletShort} already recovered in run ${runId}`);
+          continue;
+        }
+        if (inFlightWallets.has(wallet.publicKey)) {
+          console.log(`[${i + 1}/${wallets.subWallets.length}] ⚠ ${walletShort} has an unconfirmed transaction - retry after it settles`);
+          continue;
+        }
         
         try {
           console.log(`[${i + 1}/${wallets.subWallets.length}] Processing wallet ${walletShort}...`);
@@ -238,7 +497,7 @@ export class WalletManager extends EventEmitter {
           if (tokenAddress) {
             try {
               console.log(`  Checking for tokens in ${walletShort}...`);
-              const sellResult = await this.sellTokensFromWallet(sourceKeypair, tokenAddress);
+              const sellResult = await this.sellTokensFromWallet(sourceKeypair, tokenAddress, runId);
               if (sellResult.success) {
                 console.log(`  ✓ Sold tokens from ${walletShort}: ${sellResult.solReceived} SOL`);
                 transactions.push(...(sellResult.transactions || []));
@@ -251,70 +510,67 @@ export class WalletManager extends EventEmitter {
             } catch (error) {
               console.log(`  ⚠ Token sell failed for ${walletShort}:`, error);
             }
+
+            // Moving the tokens while the swap may still land would race it
+            if (await this.hasInFlightTransaction(runId, wallet.publicKey)) {
+              console.log(`  ⚠ Sale from ${walletShort} is unconfirmed - retry after it settles`);
+              pendingWallets.add(wallet.publicKey);
+              continue;
+            }
           }
 
-          // Step 2: Transfer all SOL (wait a bit first to ensure balance is updated - optimized from 1s to 0.5s)
-          await new Promise(resolve => setTimeout(resolve, 500));
-          
-          const balance = await this.getBalance(wallet.publicKey);
-          console.log(`  SOL balance in ${walletShort}: ${balance.toFixed(6)} SOL`);
-          
-          if (balance > 0.0001) { // Minimal threshold for transfer
-            // Calculate transfer amount with minimal buffer
-            const minBuffer = 0.001; // 20x less than full rent exemption
-            const transferableAmount = balance - minBuffer;
-            const transferLamports = Math.floor(transferableAmount * LAMPORTS_PER_SOL);
-
-            if (transferLamports > 0) {
-              console.log(`  Transferring ${transferableAmount.toFixed(6)} SOL from ${walletShort}...`);
-
-              const transaction = new Transaction().add(
-                SystemProgram.transfer({
-                  fromPubkey: sourceKeypair.publicKey,
-                  toPubkey: mainKeypair.publicKey,
-                  lamports: transferLamports,
-                })
-              );
-
-              // Get fresh blockhash with minimal commitment
-              const { blockhash } = await this.connection.getLatestBlockhash('finalized');
-              transaction.recentBlockhash = blockhash;
-              transaction.feePayer = sourceKeypair.publicKey;
-
-              transaction.sign(sourceKeypair);
-              
-              // Send with proper validation and error handling
-              try {
-                const signature = await this.connection.sendRawTransaction(transaction.serialize(), {
-                  skipPreflight: false, // ENABLE validation
-                  preflightCommitment: 'confirmed',
-                  maxRetries: 3
-                });
-
-                console.log(`    Transaction sent: ${signature}`);
-
-                // Wait for confirmation with proper error handling
-                const confirmation = await this.connection.confirmTransaction(signature, 'confirmed');
-                
-                if (confirmation.value.err) {
-                  throw new Error(`Transaction failed on blockchain: ${JSON.stringify(confirmation.value.err)}`);
-                }
-
-                console.log(`    Transaction confirmed: ${signature}`);
-                transactions.push(signature);
-                totalRecovered += transferableAmount;
-                console.log(`  ✓ Recovered ${transferableAmount.toFixed(6)} SOL from ${walletShort}`);
-                
-              } catch (txError) {
-                const errorMsg = txError instanceof Error ? txError.message : 'Unknown transaction error';
-                console.error(`  ✗ Transaction failed for ${walletShort}: ${errorMsg}`);
-                // Don't add to recovered amount if transaction failed
-              }
-            } else {
-              console.log(`  ⚠ Amount too small to transfer from ${walletShort}`);
+          // Step 2: Move leftover tokens to the main wallet and close every token account
+          const tokenAccounts = await this.getTokenAccounts(sourceKeypair.publicKey);
+          const closable = tokenAccounts.filter(account => !account.frozen);
+          const frozenCount = tokenAccounts.length - closable.length;
+          let openCount = frozenCount;
+
+          for (let start = 0; start < closable.length; start += WalletManager.TOKEN_ACCOUNTS_PER_TRANSACTION) {
+            const batch = closable.slice(start, start + WalletManager.TOKEN_ACCOUNTS_PER_TRANSACTION);
+
+            console.log(`  Closing ${batch.length} token account(s) in ${walletShort}...`);
+            const result = await this.closeTokenAccounts(mainWallet, sourceKeypair, batch, runId);
+            const rentLamports = result.closed.reduce((sum, account) => sum + account.lamports, 0);
+
+            transactions.push(...result.signatures);
+            totalRentReclaimed += rentLamports / LAMPORTS_PER_SOL;
+            openCount += batch.length - result.closed.length;
+            if (result.closed.length > 0) {
+              console.log(`  ✓ Reclaimed ${(rentLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL of rent from ${walletShort}`);
             }
+          }
+
+          if (frozenCount > 0) {
+            console.log(`  ⚠ ${frozenCount} frozen token account(s) in ${walletShort} cannot be closed`);
+          }
+
+          // Step 3: Transfer the entire SOL balance; the main wallet pays the fee
+          await new Promise(resolve => setTimeout(resolve, 500));
+
+          const lamports = await this.connection.getBalance(sourceKeypair.publicKey);
+          console.log(`  SOL balance in ${walletShort}: ${(lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL`);
+
+          if (lamports > 0) {
+            console.log(`  Transferring ${(lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL from ${walletShort}...`);
+
+            const signature = await this.sendFromSubWallet(
+              mainWallet,
+              sourceKeypair,
+              [SystemProgram.transfer({ fromPubkey: sourceKeypair.publicKey, toPubkey: mainWallet.publicKey, lamports })],
+              { runId, step: 'transfer', wallet: wallet.publicKey, lamports }
+            );
+
+            console.log(`    Transaction confirmed: ${signature}`);
+            transactions.push(signature);
+            totalRecovered += lamports / LAMPORTS_PER_SOL;
+            console.log(`  ✓ Recovered ${(lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL from ${walletShort}`);
+          }
+
+          // A wallet with token accounts left open is swept but stays active
+          if (openCount === 0) {
+            emptiedWallets.add(wallet.publicKey);
           } else {
-            console.log(`  ⚠ Insufficient balance in ${walletShort} (${balance.toFixed(6)} SOL)`);
+            console.log(`  ⚠ ${openCount} token account(s) left open in ${walletShort} - not retiring it`);
           }
 
           // Wait between wallets to avoid rate limits (optimized from 1.5s to 0.5s)
@@ -323,16 +579,45 @@ export class WalletManager extends EventEmitter {
           }
 
         } catch (error) {
-          console.error(`  ✗ Failed to process wallet ${walletShort}:`, error);
+          const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+          console.error(`  ✗ Failed to recover ${walletShort}: ${errorMsg}`);
+          if (await this.hasInFlightTransaction(runId, wallet.publicKey)) {
+            pendingWallets.add(wallet.publicKey);
+          }
           // Continue with next wallet
         }
       }
 
-      console.log(`\n✓ Recovery completed: ${totalRecovered.toFixed(6)} SOL recovered from ${transactions.length} transactions`);
+      // Keep the keys in the backups, but never trade with an emptied wallet again
+      let retiredWallets: string[] = [];
+      if (emptiedWallets.size > 0) {
+        try {
+          retiredWallets = await this.backupManager.retireSubWallets([...emptiedWallets]);
+          if (retiredWallets.length > 0) {
+            console.log(`✓ Retired ${retiredWallets.length} emptied sub-wallet(s)`);
+          }
+        } catch (error) {
+          console.error('✗ Failed to mark emptied sub-wallets as retired:', error);
+        }
+      }
+
+      // A run with unconfirmed transactions stays open so the next call resumes it
+      if (pendingWallets.size === 0) {
+        await this.recoveryLedger.append({ runId, type: 'run-completed' });
+      } else {
+        console.log(`⚠ ${pendingWallets.size} wallet(s) have unconfirmed transactions - run ${runId} will resume next time`);
+      }
+
+      console.log(`\n✓ Recovery completed: ${totalRecovered.toFixed(6)} SOL and ${totalRentReclaimed.toFixed(6)} SOL of rent recovered from ${transactions.length} transactions`);
       return { 
         success: true, 
         recoveredAmount: totalRecovered, 
-        transactions 
+        rentReclaimed: totalRentReclaimed,
+        transactions,
+        runId,
+        resumed,
+        pendingWallets: [...pendingWallets],
+        retiredWallets
       };
 
     } catch (error) {
@@ -342,7 +627,252 @@ export class WalletManager extends EventEmitter {
     }
   }
 
-  private async sellTokensFromWallet(walletKeypair: Keypair, tokenAddress: string): Promise<{
+  /**
+   * Every SPL Token and Token-2022 account owned by a wallet
+   */
+  private async getTokenAccounts(owner: PublicKey): Promise<TokenAccountInfo[]> {
+    const accounts: TokenAccountInfo[] = [];
+
+    for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+      const { value } = await this.connection.getParsedTokenAccountsByOwner(owner, { programId });
+      for (const { pubkey, account } of value) {
+        const info = account.data.parsed.info;
+        accounts.push({
+          address: pubkey,
+          mint: new PublicKey(info.mint),
+          programId,
+          amount: BigInt(info.tokenAmount.amount),
+          decimals: info.tokenAmount.decimals,
+          uiAmount: info.tokenAmount.uiAmountString,
+          lamports: account.lamports,
+          frozen: info.state === 'frozen'
+        });
+      }
+    }
+
+    return accounts;
+  }
+
+  /**
+   * Wrapped SOL is unwrapped by closing the account, every other balance is
+   * moved to the main wallet first
+   */
+  private needsTokenTransfer(account: TokenAccountInfo): boolean {
+    return account.amount > 0n && !account.mint.equals(NATIVE_MINT);
+  }
+
+  /**
+   * Move each account's balance to the main wallet's associated token
+   * account, then close it so its rent goes to the main wallet
+   */
+  private closeTokenAccountInstructions(
+    accounts: TokenAccountInfo[],
+    owner: PublicKey,
+    mainWallet: PublicKey
+  ): TransactionInstruction[] {
+    const instructions: TransactionInstruction[] = [];
+
+    for (const account of accounts) {
+      if (this.needsTokenTransfer(account)) {
+        const destination = getAssociatedTokenAddressSync(account.mint, mainWallet, false, account.programId);
+        instructions.push(
+          createAssociatedTokenAccountIdempotentInstruction(mainWallet, destination, mainWallet, account.mint, account.programId),
+          createTransferCheckedInstruction(
+            account.address, account.mint, destination, owner, account.amount, account.decimals, [], account.programId
+          )
+        );
+      }
+      instructions.push(createCloseAccountInstruction(account.address, mainWallet, owner, [], account.programId));
+    }
+
+    return instructions;
+  }
+
+  /**
+   * Close a batch of token accounts in one transaction. If the cluster rejects
+   * it, retry the accounts one by one so a single account that cannot be
+   * closed (withheld Token-2022 fees, a non-transferable mint) does not keep
+   * the others open. Throws only while a transaction is still in flight.
+   * @returns Signatures sent and the accounts they closed
+   */
+  private async closeTokenAccounts(
+    mainWallet: WalletSigner,
+    subWallet: Keypair,
+    accounts: TokenAccountInfo[],
+    runId: string
+  ): Promise<{ signatures: string[]; closed: TokenAccountInfo[] }> {
+    const walletAddress = subWallet.publicKey.toBase58();
+
+    try {
+      const signature = await this.sendFromSubWallet(
+        mainWallet,
+        subWallet,
+        this.closeTokenAccountInstructions(accounts, subWallet.publicKey, mainWallet.publicKey),
+        { runId, step: 'close', wallet: walletAddress, lamports: accounts.reduce((sum, account) => sum + account.lamports, 0) }
+      );
+      return { signatures: [signature], closed: accounts };
+    } catch (error) {
+      if (await this.hasInFlightTransaction(runId, walletAddress)) {
+        throw error;
+      }
+
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      if (accounts.length === 1) {
+        console.log(`  ⚠ Cannot close token account ${accounts[0].address.toBase58()}: ${errorMsg}`);
+        return { signatures: [], closed: [] };
+      }
+
+      console.log(`  ⚠ Closing ${accounts.length} token accounts together failed, retrying one by one: ${errorMsg}`);
+      const result: { signatures: string[]; closed: TokenAccountInfo[] } = { signatures: [], closed: [] };
+      for (const account of accounts) {
+        const single = await this.closeTokenAccounts(mainWallet, subWallet, [account], runId);
+        result.signatures.push(...single.signatures);
+        result.closed.push(...single.closed);
+      }
+      return result;
+    }
+  }
+
+  /**
+   * Send a sub-wallet transaction with the main wallet as fee payer, so the
+   * sub-wallet can be emptied down to zero lamports
+   */
+  private async sendFromSubWallet(
+    mainWallet: WalletSigner,
+    subWallet: Keypair,
+    instructions: TransactionInstruction[],
+    entry: { runId: string; step: RecoveryStep; wallet: string; lamports?: number }
+  ): Promise<string> {
+    const transaction = new Transaction().add(...instructions);
+
+    // Get fresh blockhash with minimal commitment
+    const latestBlockhash = await this.connection.getLatestBlockhash('finalized');
+    transaction.recentBlockhash = latestBlockhash.blockhash;
+    transaction.feePayer = mainWallet.publicKey;
+
+    transaction.partialSign(subWallet);
+    mainWallet.signTransaction(transaction);
+    const signature = bs58.encode(transaction.signature!);
+
+    console.log(`    Sending transaction: ${signature}`);
+    await this.sendWithLedger(
+      entry,
+      transaction.serialize(),
+      signature,
+      latestBlockhash,
+      { skipPreflight: false, maxRetries: 3, commitment: 'confirmed' }
+    );
+
+    return signature;
+  }
+
+  /**
+   * Resolve transactions an interrupted run left as 'sent' by asking the
+   * cluster what happened to them
+   */
+  private async reconcileRecoveryRun(runId: string): Promise<{
+    recoveredWallets: Set<string>;
+    inFlightWallets: Set<string>;
+  }> {
+    const transactions = await this.recoveryLedger.getTransactions(runId);
+    const pending = [...transactions.values()].filter(entry => entry.status === 'sent');
+    const inFlightWallets = new Set<string>();
+
+    if (pending.length > 0) {
+      const statuses = await this.connection.getSignatureStatuses(
+        pending.map(entry => entry.signature!),
+        { searchTransactionHistory: true }
+      );
+      const blockHeight = await this.connection.getBlockHeight('confirmed');
+
+      for (let i = 0; i < pending.length; i++) {
+        const entry = pending[i];
+        const status = statuses.value[i];
+        const { at, ...previous } = entry;
+        let outcome: RecoveryTransactionStatus | null = null;
+
+        if (status?.err) {
+          outcome = 'failed';
+        } else if (status && (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized')) {
+          outcome = 'confirmed';
+        } else if (!status && entry.lastValidBlockHeight !== undefined && blockHeight > entry.lastValidBlockHeight) {
+          outcome = 'expired';
+        }
+
+        if (outcome) {
+          await this.recoveryLedger.append({ ...previous, status: outcome, error: status?.err ? JSON.stringify(status.err) : undefined });
+          transactions.set(entry.signature!, { ...entry, status: outcome });
+          console.log(`Reconciled ${entry.step} ${entry.signature}: ${outcome}`);
+        } else if (entry.wallet) {
+          inFlightWallets.add(entry.wallet);
+        }
+      }
+    }
+
+    const recoveredWallets = new Set<string>();
+    for (const entry of transactions.values()) {
+      if (entry.step === 'transfer' && entry.status === 'confirmed' && entry.wallet) {
+        recoveredWallets.add(entry.wallet);
+      }
+    }
+
+    return { recoveredWallets, inFlightWallets };
+  }
+
+  private async hasInFlightTransaction(runId: string, walletAddress: string): Promise<boolean> {
+    const transactions = await this.recoveryLedger.getTransactions(runId);
+    return [...transactions.values()].some(entry => entry.wallet === walletAddress && entry.status === 'sent');
+  }
+
+  /**
+   * Record a signed transaction in the recovery ledger, send it, and record
+   * the outcome. If the outcome cannot be determined the entry stays 'sent'
+   * and is reconciled on the next run instead of being sent again.
+   */
+  private async sendWithLedger(
+    entry: { runId: string; step: RecoveryStep; wallet: string; lamports?: number },
+    serialized: Uint8Array,
+    signature: string,
+    blockhash: { blockhash: string; lastValidBlockHeight: number },
+    options: { skipPreflight: boolean; maxRetries: number; commitment: Commitment }
+  ): Promise<void> {
+    const record = { ...entry, type: 'transaction' as const, signature, lastValidBlockHeight: blockhash.lastValidBlockHeight };
+    await this.recoveryLedger.append({ ...record, status: 'sent' });
+
+    try {
+      await this.connection.sendRawTransaction(serialized, {
+        skipPreflight: options.skipPreflight,
+        preflightCommitment: 'confirmed',
+        maxRetries: options.maxRetries
+      });
+    } catch (error) {
+      // Rejected by the RPC node, so it was never forwarded to the cluster
+      if (error instanceof SendTransactionError) {
+        await this.recoveryLedger.append({ ...record, status: 'failed', error: error.message });
+      }
+      throw error;
+    }
+
+    let confirmation;
+    try {
+      confirmation = await this.connection.confirmTransaction({ signature, ...blockhash }, options.commitment);
+    } catch (error) {
+      if (error instanceof TransactionExpiredBlockheightExceededError) {
+        await this.recoveryLedger.append({ ...record, status: 'expired' });
+      }
+      throw error;
+    }
+
+    if (confirmation.value.err) {
+      const errorMessage = JSON.stringify(confirmation.value.err);
+      await this.recoveryLedger.append({ ...record, status: 'failed', error: errorMessage });
+      throw new Error(`Transaction failed on blockchain: ${errorMessage}`);
+    }
+
+    await this.recoveryLedger.append({ ...record, status: 'confirmed' });
+  }
+
+  private async sellTokensFromWallet(walletKeypair: Keypair, tokenAddress: string, runId: string): Promise<{
     success: boolean;
     solReceived?: number;
     transactions?: string[];
@@ -396,14 +926,20 @@ export class WalletManager extends EventEmitter {
         const transaction = VersionedTransaction.deserialize(swapTransactionBuf);
 
         transaction.sign([walletKeypair]);
+        const signature = bs58.encode(transaction.signatures[0]);
 
-        // Send transaction with minimal fees
-        const signature = await this.connection.sendRawTransaction(transaction.serialize(), {
-          skipPreflight: true,
-          maxRetries: 1
-        });
+        // Jupiter reports the expiry of the blockhash it used; fall back to a later one
+        const lastValidBlockHeight = swapResponse.data.lastValidBlockHeight
+          ?? (await this.connection.getLatestBlockhash('finalized')).lastValidBlockHeight;
 
-        await this.connection.confirmTransaction(signature, 'finalized');
+        // Send transaction with minimal fees
+        await this.sendWithLedger(
+          { runId, step: 'sell', wallet: walletKeypair.publicKey.toString() },
+          transaction.serialize(),
+          signature,
+          { blockhash: transaction.message.recentBlockhash, lastValidBlockHeight },
+          { skipPreflight: true, maxRetries: 1, commitment: 'finalized' }
+        );
 
         const solReceived = parseInt(quoteResponse.data.outAmount) / LAMPORTS_PER_SOL;
         return { 
@@ -423,21 +959,20 @@ export class WalletManager extends EventEmitter {
   }
 
   public async distributeToSubWallets(
-    mainWalletPrivateKey: string,
+    mainWallet: WalletSigner,
     subWalletAddresses: string[],
     amountPerWallet: number
   ): Promise<{ success: boolean; transactions?: string[]; fundedWallets?: string[]; error?: string }> {
     try {
-      const mainKeypair = Keypair.fromSecretKey(bs58.decode(mainWalletPrivateKey));
       const transactions: string[] = [];
       const fundedWallets: string[] = [];
 
       // Check main wallet balance before starting
-      const mainBalance = await this.connection.getBalance(mainKeypair.publicKey);
+      const mainBalance = await this.connection.getBalance(mainWallet.publicKey);
       const mainBalanceSOL = mainBalance / LAMPORTS_PER_SOL;
       const totalNeeded = (amountPerWallet * subWalletAddresses.length) + 0.00001; // Ultra-minimal for multi-transfer
       
-      console.log(`� Main wallet address: ${mainKeypair.publicKey.toString()}`);
+      console.log(`� Main wallet address: ${mainWallet.publicKey.toString()}`);
       console.log(`�📊 Main wallet balance: ${mainBalanceSOL.toFixed(6)} SOL`);
       console.log(`💰 Total needed: ${totalNeeded.toFixed(6)} SOL for ${subWalletAddresses.length} wallets`);
       
@@ -452,7 +987,7 @@ export class WalletManager extends EventEmitter {
         const address = subWalletAddresses[i];
         try {
           // Check balance before each transaction
-          const currentBalance = await this.connection.getBalance(mainKeypair.publicKey);
+          const currentBalance = await this.connection.getBalance(mainWallet.publicKey);
           const currentBalanceSOL = currentBalance / LAMPORTS_PER_SOL;
           
           if (currentBalanceSOL < amountPerWallet + 0.0005) { // Minimal transaction fee buffer
@@ -464,7 +999,7 @@ export class WalletManager extends EventEmitter {
 
           const transaction = new Transaction().add(
             SystemProgram.transfer({
-              fromPubkey: mainKeypair.publicKey,
+              fromPubkey: mainWallet.publicKey,
               toPubkey: new PublicKey(address),
               lamports: Math.floor(amountPerWallet * LAMPORTS_PER_SOL),
             })
@@ -473,10 +1008,10 @@ export class WalletManager extends EventEmitter {
           // Get recent blockhash
           const { blockhash } = await this.connection.getLatestBlockhash();
           transaction.recentBlockhash = blockhash;
-          transaction.feePayer = mainKeypair.publicKey;
+          transaction.feePayer = mainWallet.publicKey;
 
           // Sign and send transaction
-          transaction.sign(mainKeypair);
+          mainWallet.signTransaction(transaction);
           const signature = await this.connection.sendRawTransaction(transaction.serialize(), {
             skipPreflight: false,
             preflightCommitment: 'confirmed',
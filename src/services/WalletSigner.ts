@@ -0,0 +1,87 @@
+import { Keypair, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { inspect } from 'util';
+import * as bs58 from 'bs58';
+
+/**
+ * Holds a wallet's secret key for the session. All code that signs with the
+ * main wallet goes through this class; the key itself is never exposed.
+ */
+export class WalletSigner {
+  public readonly publicKey: PublicKey;
+  private secretKey: Uint8Array | null;
+  private keypair: Keypair | null;
+
+  private constructor(secretKey: Uint8Array) {
+    // Keypair.fromSecretKey keeps a reference to this buffer, so zeroing it
+    // in lock() also wipes the keypair's copy
+    this.keypair = Keypair.fromSecretKey(secretKey);
+    this.secretKey = secretKey;
+    this.publicKey = this.keypair.publicKey;
+  }
+
+  /**
+   * Create a signer from a bs58-encoded secret key
+   * @param privateKey bs58 secret key
+   * @param expectedPublicKey Optional address the key must derive
+   */
+  public static fromBase58(privateKey: string, expectedPublicKey?: string): WalletSigner {
+    let signer: WalletSigner;
+    try {
+      signer = new WalletSigner(bs58.decode(privateKey));
+    } catch {
+      throw new Error('Invalid wallet private key');
+    }
+
+    if (expectedPublicKey && signer.publicKey.toBase58() !== expectedPublicKey) {
+      signer.lock();
+      throw new Error(`Private key does not match wallet ${expectedPublicKey}`);
+    }
+
+    return signer;
+  }
+
+  public isLocked(): boolean {
+    return this.keypair === null;
+  }
+
+  /**
+   * Add this wallet's signature, keeping any signatures already present
+   * (e.g. a sub-wallet whose fees the main wallet pays)
+   */
+  public signTransaction(transaction: Transaction): void {
+    transaction.partialSign(this.requireKeypair());
+  }
+
+  public signVersionedTransaction(transaction: VersionedTransaction): void {
+    transaction.sign([this.requireKeypair()]);
+  }
+
+  /**
+   * Zero the secret key. The signer cannot be used afterwards.
+   */
+  public lock(): void {
+    this.secretKey?.fill(0);
+    this.secretKey = null;
+    this.keypair = null;
+  }
+
+  public toString(): string {
+    return `WalletSigner(${this.publicKey.toBase58()})`;
+  }
+
+  // Keep the key out of JSON.stringify, IPC payloads and console output
+  public toJSON(): { publicKey: string; locked: boolean } {
+    return { publicKey: this.publicKey.toBase58(), locked: this.isLocked() };
+  }
+
+  public [inspect.custom](): string {
+    return this.toString();
+  }
+
+  private requireKeypair(): Keypair {
+    if (!this.keypair) {
+      throw new Error(`Wallet ${this.publicKey.toBase58()} is locked`);
+    }
+    return this.keypair;
+  }
+}
@@ -0,0 +1,8 @@
+/** @type {import('tailwindcss').Config} */
+module.exports = {
+  content: ['./renderer/**/*.{html,js}'],
+  theme: {
+    extend: {}
+  },
+  plugins: []
+};
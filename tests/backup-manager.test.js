@@ -0,0 +1,418 @@
+const { describe, test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { Keypair } = require('@solana/web3.js');
+const bs58 = require('bs58');
+const { Keystore } = require('../dist/services/Keystore');
+const { BackupManager } = require('../dist/services/BackupManager');
+const { PASSPHRASE, createBackupManager, generateWallet } = require('./helpers/backups');
+
+describe('BackupManager', () => {
+  let backupManager;
+  let backupDir;
+  let cleanup;
+
+  beforeEach(async () => {
+    ({ backupManager, backupDir, cleanup } = await createBackupManager());
+  });
+
+  afterEach(() => cleanup());
+
+  describe('keystore', () => {
+    let fresh;
+
+    beforeEach(() => {
+      fresh = new BackupManager(new Keystore(), fs.mkdtempSync(path.join(backupDir, 'fresh-')));
+    });
+
+    test('refuses to unlock before a keystore has been created', async () => {
+      assert.equal(await fresh.hasKeystore(), false);
+      await assert.rejects(fresh.unlock(PASSPHRASE), /No keystore exists yet/);
+      assert.equal(fresh.isUnlocked(), false);
+    });
+
+    test('requires the new passphrase twice', async () => {
+      await assert.rejects(fresh.createKeystore(PASSPHRASE, `${PASSPHRASE}!`), /Passphrases do not match/);
+      assert.equal(await fresh.hasKeystore(), false);
+
+      await fresh.createKeystore(PASSPHRASE, PASSPHRASE);
+      assert.equal(fresh.isUnlocked(), true);
+      await assert.rejects(fresh.createKeystore(PASSPHRASE, PASSPHRASE), /already exists/);
+
+      fresh.lock();
+      await assert.rejects(fresh.unlock('a mistyped passphrase'), /Wrong keystore passphrase/);
+      await fresh.unlock(PASSPHRASE);
+    });
+
+    test('keeps plaintext originals until the new keystore is unlocked again', async () => {
+      const filename = 'wallets-1700000000000.json';
+      const filepath = path.join(fresh.getBackupDirectory(), filename);
+      const plaintext = JSON.stringify({ subWallets: [generateWallet(0)] });
+      fs.writeFileSync(filepath, plaintext);
+
+      await fresh.createKeystore(PASSPHRASE, PASSPHRASE);
+      assert.deepEqual(await fresh.migratePlaintextBackups(), []);
+      assert.equal(fs.readFileSync(filepath, 'utf-8'), plaintext);
+
+      fresh.lock();
+      await fresh.unlock(PASSPHRASE);
+      assert.deepEqual(await fresh.migratePlaintextBackups(), [filename]);
+      assert.notEqual(fs.readFileSync(filepath, 'utf-8'), plaintext);
+    });
+  });
+
+  test('reports an unusable backup directory from its methods instead of the constructor', async () => {
+    const blocker = path.join(backupDir, 'not-a-directory');
+    fs.writeFileSync(blocker, '');
+
+    const unusable = new BackupManager(new Keystore(), path.join(blocker, 'wallet-backups'));
+    await assert.rejects(unusable.createKeystore(PASSPHRASE, PASSPHRASE), /ENOTDIR/);
+    assert.equal(unusable.isUnlocked(), false);
+  });
+
+  describe('createBackup', () => {
+    test('writes an encrypted backup that round-trips', async () => {
+      const mainWallet = generateWallet();
+      const subWallets = [generateWallet(0), generateWallet(1)];
+
+      const filepath = await backupManager.createBackup({ mainWallet, subWallets });
+
+      const contents = fs.readFileSync(filepath, 'utf-8');
+      for (const wallet of [mainWallet, ...subWallets]) {
+        assert.ok(!contents.includes(wallet.privateKey), 'private key stored in plaintext');
+      }
+
+      const [backup] = await backupManager.getBackupFiles();
+      assert.equal(backup.path, filepath);
+      assert.deepEqual(backup.data.mainWallet, mainWallet);
+      assert.deepEqual(backup.data.subWallets, subWallets);
+      assert.equal(backup.data.metadata.totalWallets, 3);
+    });
+
+    test('announces the backup without any private key', async () => {
+      const mainWallet = generateWallet();
+      const events = [];
+      backupManager.on('backup-created', event => events.push(event));
+
+      const filepath = await backupManager.createBackup({ mainWallet, subWallets: [generateWallet(0)] });
+
+      assert.equal(events.length, 1);
+      assert.deepEqual(Object.keys(events[0]).sort(), ['checksum', 'filename', 'filepath']);
+      assert.equal(events[0].filepath, filepath);
+      assert.ok(!JSON.stringify(events).includes(mainWallet.privateKey));
+    });
+
+    test('records every backup in the manifest', async () => {
+      await backupManager.createBackup({ subWallets: [generateWallet(0)] });
+      await backupManager.createBackup({ subWallets: [generateWallet(1)] });
+
+      const manifest = JSON.parse(fs.readFileSync(path.join(backupDir, 'backup-manifest.json'), 'utf-8'));
+      assert.equal(Object.keys(manifest.files).length, 2);
+      assert.equal((await backupManager.getBackupFiles()).length, 2);
+    });
+
+    test('gives backups created in the same millisecond distinct files', async (t) => {
+      t.mock.method(Date, 'now', () => 1700000000000);
+      const first = [generateWallet(0)];
+      const second = [generateWallet(1)];
+
+      const firstPath = await backupManager.createBackup({ subWallets: first });
+      const secondPath = await backupManager.createBackup({ subWallets: second });
+
+      assert.notEqual(firstPath, secondPath);
+      const backups = await backupManager.getBackupFiles();
+      assert.deepEqual(backups.map(backup => backup.data.subWallets).sort((a, b) => a[0].index - b[0].index), [first, second]);
+    });
+
+    test('does not reuse the timestamp of a backup written by another instance', async (t) => {
+      t.mock.method(Date, 'now', () => 1700000000000);
+      const first = await backupManager.createBackup({ subWallets: [generateWallet(0)] });
+
+      const other = new BackupManager(new Keystore(), backupDir);
+      await other.unlock(PASSPHRASE);
+      const second = await other.createBackup({ subWallets: [generateWallet(1)] });
+
+      assert.notEqual(first, second);
+      assert.equal((await backupManager.getBackupFiles()).length, 2);
+    });
+
+    test('refuses to write while the keystore is locked', async () => {
+      backupManager.lock();
+      await assert.rejects(backupManager.createBackup({ subWallets: [generateWallet(0)] }), /Keystore is locked/);
+    });
+
+    test('rejects a wrong passphrase once backups exist', async () => {
+      await backupManager.createBackup({ subWallets: [generateWallet(0)] });
+
+      const other = new BackupManager(new Keystore(), backupDir);
+      await assert.rejects(other.unlock('not the passphrase'), /Wrong keystore passphrase/);
+      assert.equal(other.isUnlocked(), false);
+    });
+  });
+
+  describe('getAllWalletsFromBackups', () => {
+    test('deduplicates wallets that appear in several backups', async () => {
+      const mainWallet = generateWallet();
+      const [a, b, c] = [generateWallet(0), generateWallet(1), generateWallet(2)];
+
+      await backupManager.createBackup({ mainWallet, subWallets: [a, b] });
+      await backupManager.createBackup({ mainWallet, subWallets: [b, c] });
+
+      const wallets = await backupManager.getAllWalletsFromBackups();
+      assert.deepEqual(wallets.mainWallets.map(wallet => wallet.publicKey), [mainWallet.publicKey]);
+      assert.deepEqual(
+        wallets.subWallets.map(wallet => wallet.publicKey).sort(),
+        [a, b, c].map(wallet => wallet.publicKey).sort()
+      );
+    });
+
+    test('prefers the newest backup of a wallet', async () => {
+      const [a, b] = [generateWallet(0), generateWallet(1)];
+      await backupManager.createBackup({ subWallets: [a, b] });
+
+      assert.deepEqual(await backupManager.retireSubWallets([a.publicKey]), [a.publicKey]);
+
+      const { subWallets } = await backupManager.getAllWalletsFromBackups();
+      assert.equal(subWallets.length, 2);
+      assert.equal(typeof subWallets.find(wallet => wallet.publicKey === a.publicKey).retiredAt, 'number');
+      assert.equal(subWallets.find(wallet => wallet.publicKey === b.publicKey).retiredAt, undefined);
+    });
+  });
+
+  describe('key and address consistency', () => {
+    test('every stored private key derives its stored address', async () => {
+      await backupManager.createBackup({ mainWallet: generateWallet(), subWallets: [generateWallet(0), generateWallet(1)] });
+
+      const { mainWallets, subWallets } = await backupManager.getAllWalletsFromBackups();
+      for (const wallet of [...mainWallets, ...subWallets]) {
+        const keypair = Keypair.fromSecretKey(bs58.decode(wallet.privateKey));
+        assert.equal(keypair.publicKey.toBase58(), wallet.publicKey);
+      }
+
+      const report = await backupManager.verifyBackups();
+      assert.equal(report.ok, true);
+      assert.equal(report.results[0].walletsChecked, 3);
+    });
+
+    test('verifyBackups flags a key that does not match its address', async () => {
+      const wallet = generateWallet(0);
+      wallet.publicKey = Keypair.generate().publicKey.toBase58();
+      const filepath = await backupManager.createBackup({ subWallets: [wallet] });
+
+      const report = await backupManager.verifyBackups();
+      const result = report.results.find(entry => entry.filename === path.basename(filepath));
+      assert.equal(report.ok, false);
+      assert.equal(result.status, 'mismatch');
+      assert.match(result.issues[0], /does not derive stored address/);
+    });
+
+    test('unlockSigner refuses a main wallet that is not in the keystore', async () => {
+      await assert.rejects(backupManager.unlockSigner(Keypair.generate().publicKey.toBase58()), /not found in keystore/);
+    });
+  });
+
+  describe('legacy backups', () => {
+    test('normalizes and encrypts a pre-metadata plaintext backup', async () => {
+      const subWallets = [generateWallet(), generateWallet()];
+      const filename = 'wallets-1700000000000.json';
+      fs.writeFileSync(path.join(backupDir, filename), JSON.stringify({
+        createdAt: '2023-11-14T22:13:20.000Z',
+        mainWallet: { publicKey: '', privateKey: 'REPLACE_WITH_YOUR_MAIN_WALLET_PRIVATE_KEY_HERE' },
+        subWallets: subWallets.map(({ publicKey, privateKey }) => ({ publicKey, privateKey }))
+      }));
+
+      assert.deepEqual(await backupManager.migratePlaintextBackups(), [filename]);
+
+      const contents = fs.readFileSync(path.join(backupDir, filename), 'utf-8');
+      assert.ok(!contents.includes(subWallets[0].privateKey), 'legacy backup still in plaintext');
+
+      const [backup] = await backupManager.getBackupFiles();
+      assert.equal(backup.data.mainWallet, null);
+      assert.equal(backup.timestamp, 1700000000000);
+      assert.deepEqual(
+        backup.data.subWallets.map(({ publicKey, index, createdAt }) => ({ publicKey, index, createdAt })),
+        subWallets.map(({ publicKey }, index) => ({ publicKey, index, createdAt: 1700000000000 }))
+      );
+      assert.equal((await backupManager.verifyBackups()).ok, true);
+    });
+
+    test('restores an encrypted copy orphaned by an interrupted migration', async () => {
+      const wallet = generateWallet(0);
+      const filepath = await backupManager.createBackup({ subWallets: [wallet] });
+      fs.renameSync(filepath, `${filepath}.enc`);
+
+      await backupManager.migratePlaintextBackups();
+
+      assert.equal(fs.existsSync(`${filepath}.enc`), false);
+      const [backup] = await backupManager.getBackupFiles();
+      assert.equal(backup.path, filepath);
+      assert.deepEqual(backup.data.subWallets, [wallet]);
+    });
+
+    test('drops a stale encrypted copy when the original is intact', async () => {
+      const filepath = await backupManager.createBackup({ subWallets: [generateWallet(0)] });
+      fs.copyFileSync(filepath, `${filepath}.enc`);
+      const original = fs.readFileSync(filepath, 'utf-8');
+
+      await backupManager.migratePlaintextBackups();
+
+      assert.equal(fs.existsSync(`${filepath}.enc`), false);
+      assert.equal(fs.readFileSync(filepath, 'utf-8'), original);
+    });
+
+    test('quarantines a backup with an unknown shape instead of guessing', async () => {
+      const filename = 'wallets-1700000000001.json';
+      fs.writeFileSync(path.join(backupDir, filename), JSON.stringify({ wallets: [generateWallet()] }));
+
+      assert.deepEqual(await backupManager.migratePlaintextBackups(), []);
+      assert.equal(fs.existsSync(path.join(backupDir, filename)), false);
+      assert.equal(fs.existsSync(path.join(backupDir, 'quarantine', filename)), true);
+
+      const reason = JSON.parse(fs.readFileSync(path.join(backupDir, 'quarantine', `${filename}.reason.json`), 'utf-8'));
+      assert.match(reason.reason, /Unknown fields: wallets/);
+    });
+
+    test('keeps listing quarantined backups as unreadable on every scan', async () => {
+      const filename = 'wallets-1700000000002.json';
+      fs.writeFileSync(path.join(backupDir, filename), JSON.stringify({ wallets: [generateWallet()] }));
+
+      for (let scan = 0; scan < 2; scan++) {
+        const { files, unreadable } = await backupManager.scanBackupFiles();
+        assert.deepEqual(files, []);
+        assert.equal(unreadable.length, 1);
+        assert.equal(unreadable[0].filename, filename);
+        assert.equal(unreadable[0].path, path.join(backupDir, 'quarantine', filename));
+        assert.equal(unreadable[0].quarantined, true);
+        assert.match(unreadable[0].error, /Unknown fields: wallets/);
+      }
+    });
+  });
+
+  describe('copyBackupsTo', () => {
+    test('moving to a new directory keeps the keystore, wallets and checksums', async () => {
+      const wallets = [generateWallet(0), generateWallet(1)];
+      await backupManager.createBackup({ subWallets: wallets });
+      await backupManager.retireSubWallets([wallets[0].publicKey]);
+      const targetDir = fs.mkdtempSync(path.join(backupDir, 'moved-'));
+
+      const copied = await backupManager.copyBackupsTo(targetDir);
+      assert.equal(copied.filter(filename => filename.startsWith('wallets-')).length, 2);
+      assert.ok(copied.includes('keystore-check.json'));
+
+      const moved = new BackupManager(new Keystore(), targetDir);
+      await assert.rejects(moved.unlock('not the passphrase'), /Wrong keystore passphrase/);
+      await moved.unlock(PASSPHRASE);
+      const { subWallets } = await moved.getAllWalletsFromBackups();
+      assert.deepEqual(subWallets.map(wallet => wallet.publicKey).sort(), wallets.map(wallet => wallet.publicKey).sort());
+      assert.equal((await moved.verifyBackups()).ok, true);
+      moved.lock();
+    });
+
+    test('refuses a directory that belongs to another keystore', async () => {
+      await backupManager.createBackup({ subWallets: [generateWallet(0)] });
+      const other = await createBackupManager('another passphrase');
+      try {
+        await other.backupManager.createBackup({ subWallets: [generateWallet(1)] });
+        const before = fs.readdirSync(other.backupDir).sort();
+
+        await assert.rejects(backupManager.copyBackupsTo(other.backupDir), /different passphrase/);
+        assert.deepEqual(fs.readdirSync(other.backupDir).sort(), before);
+      } finally {
+        other.cleanup();
+      }
+    });
+
+    test('refuses to copy while the keystore is locked', async () => {
+      await backupManager.createBackup({ subWallets: [generateWallet(0)] });
+      backupManager.lock();
+
+      await assert.rejects(backupManager.copyBackupsTo(path.join(backupDir, 'moved')), /Keystore is locked/);
+      assert.equal(fs.existsSync(path.join(backupDir, 'moved')), false);
+    });
+  });
+
+  describe('importBackupsFrom', () => {
+    let legacy;
+
+    beforeEach(async () => {
+      legacy = await createBackupManager();
+    });
+
+    afterEach(() => legacy.cleanup());
+
+    test('copies encrypted and plaintext backups and keeps the originals', async () => {
+      const encrypted = generateWallet(0);
+      const plaintext = generateWallet(1);
+      const encryptedFile = path.basename(await legacy.backupManager.createBackup({ subWallets: [encrypted] }));
+      fs.writeFileSync(path.join(legacy.backupDir, 'wallets-1700000000000.json'), JSON.stringify({ subWallets: [plaintext] }));
+      fs.writeFileSync(path.join(legacy.backupDir, 'recovery-ledger.jsonl'), '');
+
+      const result = await backupManager.importBackupsFrom(legacy.backupDir);
+
+      assert.deepEqual(result.imported.sort(), [encryptedFile, 'wallets-1700000000000.json'].sort());
+      assert.deepEqual(result.plaintextOriginals, ['wallets-1700000000000.json']);
+      assert.deepEqual(result.skipped, []);
+      assert.ok(fs.existsSync(path.join(legacy.backupDir, encryptedFile)));
+      assert.ok(fs.existsSync(path.join(backupDir, 'recovery-ledger.jsonl')));
+
+      const { subWallets } = await backupManager.getAllWalletsFromBackups();
+      assert.deepEqual(subWallets.map(wallet => wallet.publicKey).sort(), [encrypted.publicKey, plaintext.publicKey].sort());
+      assert.equal((await backupManager.verifyBackups()).ok, true);
+    });
+
+    test('wipes imported plaintext originals only while the copy holds their keys', async () => {
+      const encryptedFile = path.basename(await legacy.backupManager.createBackup({ subWallets: [generateWallet(0)] }));
+      fs.writeFileSync(path.join(legacy.backupDir, 'wallets-1700000000000.json'), JSON.stringify({ subWallets: [generateWallet(1)] }));
+      fs.writeFileSync(path.join(legacy.backupDir, 'wallets-1700000000001.json'), JSON.stringify({ subWallets: [generateWallet(2)] }));
+
+      const result = await backupManager.importBackupsFrom(legacy.backupDir);
+      assert.deepEqual(result.plaintextOriginals.sort(), ['wallets-1700000000000.json', 'wallets-1700000000001.json']);
+
+      // An imported copy that lost its wallet must keep the original alive
+      fs.unlinkSync(path.join(backupDir, 'wallets-1700000000001.json'));
+
+      const wiped = await backupManager.wipeImportedOriginals(legacy.backupDir, [...result.plaintextOriginals, encryptedFile]);
+
+      assert.deepEqual(wiped, ['wallets-1700000000000.json']);
+      assert.equal(fs.existsSync(path.join(legacy.backupDir, 'wallets-1700000000000.json')), false);
+      assert.ok(fs.existsSync(path.join(legacy.backupDir, 'wallets-1700000000001.json')));
+      assert.ok(fs.existsSync(path.join(legacy.backupDir, encryptedFile)));
+    });
+
+    test('does not report files imported by an earlier run as skipped', async () => {
+      await legacy.backupManager.createBackup({ subWallets: [generateWallet(0)] });
+      fs.writeFileSync(path.join(legacy.backupDir, 'wallets-1700000000000.json'), JSON.stringify({ subWallets: [generateWallet(1)] }));
+      await backupManager.importBackupsFrom(legacy.backupDir);
+
+      const again = await backupManager.importBackupsFrom(legacy.backupDir);
+
+      assert.deepEqual(again.imported, []);
+      assert.deepEqual(again.skipped, []);
+      assert.deepEqual(again.plaintextOriginals, ['wallets-1700000000000.json']);
+    });
+
+    test('skips a source file whose name is taken by a different backup', async () => {
+      fs.writeFileSync(path.join(legacy.backupDir, 'wallets-1700000000000.json'), JSON.stringify({ subWallets: [generateWallet(0)] }));
+      await backupManager.importBackupsFrom(legacy.backupDir);
+      fs.writeFileSync(path.join(legacy.backupDir, 'wallets-1700000000000.json'), JSON.stringify({ subWallets: [generateWallet(1)] }));
+
+      const again = await backupManager.importBackupsFrom(legacy.backupDir);
+
+      assert.deepEqual(again.skipped, [{ filename: 'wallets-1700000000000.json', reason: 'A different backup with this name already exists' }]);
+      assert.deepEqual(again.plaintextOriginals, []);
+    });
+
+    test('skips backups encrypted with a different passphrase', async () => {
+      const other = await createBackupManager('a different passphrase');
+      const filename = path.basename(await other.backupManager.createBackup({ subWallets: [generateWallet(0)] }));
+
+      const result = await backupManager.importBackupsFrom(other.backupDir);
+      other.cleanup();
+
+      assert.deepEqual(result.imported, []);
+      assert.deepEqual(result.skipped, [{ filename, reason: 'Wrong keystore passphrase or corrupted data' }]);
+      assert.equal(fs.existsSync(path.join(backupDir, filename)), false);
+    });
+  });
+});
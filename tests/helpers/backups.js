@@ -0,0 +1,45 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Keypair } = require('@solana/web3.js');
+const bs58 = require('bs58');
+const { Keystore } = require('../../dist/services/Keystore');
+const { BackupManager } = require('../../dist/services/BackupManager');
+
+const PASSPHRASE = 'correct horse battery staple';
+
+/**
+ * BackupManager on a fresh temp directory with a keystore that has been
+ * created and unlocked again, as after a restart
+ */
+async function createBackupManager(passphrase = PASSPHRASE) {
+  const backupDir = fs.mkdtempSync(path.join(os.tmpdir(), 'volume-bot-test-'));
+  const backupManager = new BackupManager(new Keystore(), backupDir);
+  await backupManager.createKeystore(passphrase, passphrase);
+  backupManager.lock();
+  await backupManager.unlock(passphrase);
+
+  return {
+    backupManager,
+    backupDir,
+    cleanup() {
+      backupManager.lock();
+      fs.rmSync(backupDir, { recursive: true, force: true });
+    }
+  };
+}
+
+/**
+ * A backup wallet entry with a freshly generated key
+ */
+function generateWallet(index) {
+  const keypair = Keypair.generate();
+  return {
+    publicKey: keypair.publicKey.toBase58(),
+    privateKey: bs58.encode(keypair.secretKey),
+    createdAt: Date.now(),
+    ...(index !== undefined ? { index } : {})
+  };
+}
+
+module.exports = { PASSPHRASE, createBackupManager, generateWallet };
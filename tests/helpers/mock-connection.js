@@ -0,0 +1,262 @@
+const {
+  Keypair,
+  PublicKey,
+  SendTransactionError,
+  SystemInstruction,
+  SystemProgram,
+  Transaction
+} = require('@solana/web3.js');
+const {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenInstruction,
+  decodeInstruction,
+  getAssociatedTokenAddressSync
+} = require('@solana/spl-token');
+const bs58 = require('bs58');
+
+const SIGNATURE_FEE_LAMPORTS = 5000;
+const TOKEN_ACCOUNT_RENT_LAMPORTS = 2039280;
+
+/**
+ * In-memory stand-in for a web3.js Connection. It keeps SOL and SPL token
+ * balances and applies the System, Token and Associated Token instructions
+ * the wallet services send, so tests run without a validator or network.
+ */
+class MockConnection {
+  constructor() {
+    this.lamports = new Map();
+    // address -> { owner, mint, amount (bigint), decimals, lamports, state, withheldFees? }
+    this.tokenAccounts = new Map();
+    this.statuses = new Map();
+    this.sent = [];
+    this.blockHeight = 1000;
+    // Simulates a dropped RPC connection after a transaction was forwarded
+    this.dropConfirmations = false;
+  }
+
+  fund(address, lamports) {
+    const key = address.toString();
+    this.lamports.set(key, (this.lamports.get(key) || 0) + lamports);
+  }
+
+  addTokenAccount(owner, mint, amount, decimals = 6) {
+    const address = getAssociatedTokenAddressSync(new PublicKey(mint), new PublicKey(owner));
+    this.tokenAccounts.set(address.toBase58(), {
+      owner: owner.toString(),
+      mint: mint.toString(),
+      amount: BigInt(amount),
+      decimals,
+      lamports: TOKEN_ACCOUNT_RENT_LAMPORTS,
+      state: 'initialized'
+    });
+    return address;
+  }
+
+  balanceOf(address) {
+    return this.lamports.get(address.toString()) || 0;
+  }
+
+  tokenAccountsOf(owner) {
+    return [...this.tokenAccounts.values()].filter(account => account.owner === owner.toString());
+  }
+
+  async getBalance(publicKey) {
+    return this.balanceOf(publicKey);
+  }
+
+  async getParsedTokenAccountsByOwner(owner, { programId }) {
+    const value = [];
+    if (!programId.equals(TOKEN_PROGRAM_ID)) {
+      return { context: { slot: 1 }, value };
+    }
+
+    for (const [address, account] of this.tokenAccounts) {
+      if (account.owner !== owner.toBase58()) continue;
+      value.push({
+        pubkey: new PublicKey(address),
+        account: {
+          lamports: account.lamports,
+          owner: TOKEN_PROGRAM_ID,
+          executable: false,
+          data: {
+            program: 'spl-token',
+            space: 165,
+            parsed: {
+              type: 'account',
+              info: {
+                mint: account.mint,
+                owner: account.owner,
+                state: account.state,
+                tokenAmount: {
+                  amount: account.amount.toString(),
+                  decimals: account.decimals,
+                  uiAmountString: (Number(account.amount) / 10 ** account.decimals).toString()
+                }
+              }
+            }
+          }
+        }
+      });
+    }
+    return { context: { slot: 1 }, value };
+  }
+
+  async getAccountInfo(publicKey) {
+    const address = publicKey.toBase58();
+    const tokenAccount = this.tokenAccounts.get(address);
+    if (tokenAccount) {
+      return { lamports: tokenAccount.lamports, owner: TOKEN_PROGRAM_ID, executable: false, data: Buffer.alloc(165) };
+    }
+    const lamports = this.balanceOf(address);
+    return lamports > 0 ? { lamports, owner: SystemProgram.programId, executable: false, data: Buffer.alloc(0) } : null;
+  }
+
+  async getLatestBlockhash() {
+    return { blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: this.blockHeight + 150 };
+  }
+
+  async getBlockHeight() {
+    return this.blockHeight;
+  }
+
+  async sendRawTransaction(serialized) {
+    const transaction = Transaction.from(serialized);
+    const signature = bs58.encode(transaction.signature);
+
+    if (!transaction.verifySignatures()) {
+      throw this.rejection(signature, 'Transaction signature verification failure');
+    }
+
+    // Apply to a copy so a failing instruction leaves no partial state
+    const lamports = new Map(this.lamports);
+    const tokenAccounts = new Map([...this.tokenAccounts].map(([address, account]) => [address, { ...account }]));
+    const signers = transaction.signatures.map(entry => entry.publicKey.toBase58());
+
+    try {
+      this.debit(lamports, transaction.feePayer.toBase58(), SIGNATURE_FEE_LAMPORTS * transaction.signatures.length);
+      for (const instruction of transaction.instructions) {
+        this.applyInstruction(instruction, lamports, tokenAccounts, signers);
+      }
+    } catch (error) {
+      throw this.rejection(signature, error.message);
+    }
+
+    this.lamports = lamports;
+    this.tokenAccounts = tokenAccounts;
+    this.statuses.set(signature, { slot: 1, confirmations: null, err: null, confirmationStatus: 'confirmed' });
+    this.sent.push(signature);
+    return signature;
+  }
+
+  async confirmTransaction(strategy) {
+    if (this.dropConfirmations) {
+      throw new Error('Connection lost while confirming transaction');
+    }
+    const status = this.statuses.get(typeof strategy === 'string' ? strategy : strategy.signature);
+    return { context: { slot: 1 }, value: { err: status ? status.err : null } };
+  }
+
+  async getSignatureStatuses(signatures) {
+    return { context: { slot: 1 }, value: signatures.map(signature => this.statuses.get(signature) || null) };
+  }
+
+  applyInstruction(instruction, lamports, tokenAccounts, signers) {
+    if (instruction.programId.equals(SystemProgram.programId)) {
+      if (SystemInstruction.decodeInstructionType(instruction) !== 'Transfer') {
+        throw new Error('Unsupported system instruction');
+      }
+      const { fromPubkey, toPubkey, lamports: amount } = SystemInstruction.decodeTransfer(instruction);
+      this.requireSigner(signers, fromPubkey.toBase58());
+      this.debit(lamports, fromPubkey.toBase58(), Number(amount));
+      lamports.set(toPubkey.toBase58(), (lamports.get(toPubkey.toBase58()) || 0) + Number(amount));
+      return;
+    }
+
+    if (instruction.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+      const [payer, address, owner, mint] = instruction.keys.map(key => key.pubkey.toBase58());
+      if (tokenAccounts.has(address)) return;
+      this.requireSigner(signers, payer);
+      this.debit(lamports, payer, TOKEN_ACCOUNT_RENT_LAMPORTS);
+      const sameMint = [...tokenAccounts.values()].find(account => account.mint === mint);
+      tokenAccounts.set(address, {
+        owner,
+        mint,
+        amount: 0n,
+        decimals: sameMint ? sameMint.decimals : 0,
+        lamports: TOKEN_ACCOUNT_RENT_LAMPORTS,
+        state: 'initialized'
+      });
+      return;
+    }
+
+    if (instruction.programId.equals(TOKEN_PROGRAM_ID)) {
+      const decoded = decodeInstruction(instruction);
+
+      if (decoded.data.instruction === TokenInstruction.TransferChecked) {
+        const source = this.requireTokenAccount(tokenAccounts, decoded.keys.source.pubkey);
+        const destination = this.requireTokenAccount(tokenAccounts, decoded.keys.destination.pubkey);
+        this.requireSigner(signers, source.owner);
+        if (source.mint !== destination.mint || decoded.data.decimals !== source.decimals) {
+          throw new Error('Mint or decimals mismatch');
+        }
+        if (source.amount < decoded.data.amount) {
+          throw new Error('Insufficient token balance');
+        }
+        source.amount -= decoded.data.amount;
+        destination.amount += decoded.data.amount;
+        return;
+      }
+
+      if (decoded.data.instruction === TokenInstruction.CloseAccount) {
+        const address = decoded.keys.account.pubkey.toBase58();
+        const account = this.requireTokenAccount(tokenAccounts, decoded.keys.account.pubkey);
+        this.requireSigner(signers, account.owner);
+        if (account.amount !== 0n) {
+          throw new Error('Non-native account can only be closed if its balance is zero');
+        }
+        if (account.withheldFees) {
+          throw new Error('Non-native account can only be closed if its withheld fee balance is zero');
+        }
+        const destination = decoded.keys.destination.pubkey.toBase58();
+        lamports.set(destination, (lamports.get(destination) || 0) + account.lamports);
+        tokenAccounts.delete(address);
+        return;
+      }
+    }
+
+    throw new Error(`Unsupported instruction for program ${instruction.programId.toBase58()}`);
+  }
+
+  debit(lamports, address, amount) {
+    const balance = lamports.get(address) || 0;
+    if (balance < amount) {
+      throw new Error(`Insufficient lamports in ${address}`);
+    }
+    if (balance === amount) {
+      lamports.delete(address);
+    } else {
+      lamports.set(address, balance - amount);
+    }
+  }
+
+  requireSigner(signers, address) {
+    if (!signers.includes(address)) {
+      throw new Error(`Missing signature for ${address}`);
+    }
+  }
+
+  requireTokenAccount(tokenAccounts, publicKey) {
+    const account = tokenAccounts.get(publicKey.toBase58());
+    if (!account) {
+      throw new Error(`Token account ${publicKey.toBase58()} does not exist`);
+    }
+    return account;
+  }
+
+  rejection(signature, message) {
+    return new SendTransactionError({ action: 'send', signature, transactionMessage: message });
+  }
+}
+
+module.exports = { MockConnection, SIGNATURE_FEE_LAMPORTS, TOKEN_ACCOUNT_RENT_LAMPORTS };
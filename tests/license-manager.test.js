@@ -0,0 +1,121 @@
+const { describe, test } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const { LicenseManager } = require('../dist/services/LicenseManager');
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+const HOUR = 60 * 60 * 1000;
+
+function encode(payload) {
+  return Buffer.from(typeof payload === 'string' ? payload : JSON.stringify(payload)).toString('base64url');
+}
+
+function createKey(payload, signingKey = privateKey) {
+  const payloadB64 = encode(payload);
+  const signature = crypto.sign(null, Buffer.from(payloadB64), signingKey).toString('base64url');
+  return `VB-${payloadB64}.${signature}`;
+}
+
+function validPayload(overrides = {}) {
+  const now = Date.now();
+  return { exp: now + 24 * HOUR, user: 'alice', issued: now, ...overrides };
+}
+
+function validate(licenseKey) {
+  return LicenseManager.validateLicenseKey(licenseKey, publicKey);
+}
+
+describe('LicenseManager', () => {
+  test('accepts a key signed with the matching private key', () => {
+    const payload = validPayload();
+    const result = validate(createKey(payload));
+
+    assert.equal(result.valid, true);
+    assert.deepEqual(result.payload, payload);
+    assert.equal(result.expiresAt.getTime(), payload.exp);
+    assert.match(result.remainingTime, /^2[34]h \d+m$/);
+  });
+
+  test('rejects an expired key', () => {
+    const result = validate(createKey(validPayload({ exp: Date.now() - HOUR, issued: Date.now() - 2 * HOUR })));
+
+    assert.equal(result.valid, false);
+    assert.match(result.error, /^License key expired on /);
+  });
+
+  test('rejects a key whose payload was changed after signing', () => {
+    const [payloadB64, signature] = createKey(validPayload()).substring(3).split('.');
+    const extended = JSON.parse(Buffer.from(payloadB64, 'base64url').toString());
+    extended.exp += 365 * 24 * HOUR;
+
+    const result = validate(`VB-${encode(extended)}.${signature}`);
+    assert.deepEqual(result, { valid: false, error: 'Invalid license key signature' });
+  });
+
+  test('rejects a tampered signature', () => {
+    const key = createKey(validPayload());
+    const [payloadB64, signatureB64] = key.substring(3).split('.');
+    const signature = Buffer.from(signatureB64, 'base64url');
+    signature[0] ^= 0xff;
+
+    const result = validate(`VB-${payloadB64}.${signature.toString('base64url')}`);
+    assert.deepEqual(result, { valid: false, error: 'Invalid license key signature' });
+  });
+
+  test('rejects a key signed with a different private key', () => {
+    const other = crypto.generateKeyPairSync('ed25519');
+
+    const result = validate(createKey(validPayload(), other.privateKey));
+    assert.deepEqual(result, { valid: false, error: 'Invalid license key signature' });
+  });
+
+  test('rejects every key while the build embeds no verification key', () => {
+    assert.deepEqual(LicenseManager.validateLicenseKey(createKey(validPayload()), ''), {
+      valid: false,
+      error: 'This build has no license verification key configured'
+    });
+  });
+
+  test('reports malformed key structure clearly', () => {
+    const signature = crypto.sign(null, Buffer.from('x'), privateKey).toString('base64url');
+    const cases = [
+      ['', /License key is required/],
+      [undefined, /License key is required/],
+      ['XX-abc.def', /must start with VB-/],
+      ['VB-abc', /expected VB-<payload>\.<signature>/],
+      ['VB-abc.def.ghi', /expected VB-<payload>\.<signature>/],
+      ['VB-.def', /expected VB-<payload>\.<signature>/],
+      [`VB-ab+c.${signature}`, /invalid base64url encoding/],
+      ['VB-abc.def', /signature has the wrong length/],
+      [`VB-${'a'.repeat(4096)}.${signature}`, /too long/]
+    ];
+
+    for (const [key, error] of cases) {
+      const result = validate(key);
+      assert.equal(result.valid, false, `accepted ${key}`);
+      assert.match(result.error, error);
+    }
+  });
+
+  test('rejects signed payloads that do not match the schema', () => {
+    const now = Date.now();
+    const cases = [
+      ['not json', /not valid JSON/],
+      [[1, 2, 3], /not a JSON object/],
+      [validPayload({ admin: true }), /unknown fields admin/],
+      [validPayload({ exp: String(now + HOUR) }), /exp must be a timestamp/],
+      [validPayload({ exp: now + 0.5 }), /exp must be a timestamp/],
+      [{ exp: now + HOUR, user: 'alice' }, /issued must be a timestamp/],
+      [validPayload({ issued: now + 2 * 24 * HOUR }), /issued is after exp/],
+      [validPayload({ user: '' }), /user must be a string/],
+      [validPayload({ user: 'a'.repeat(129) }), /user must be a string/]
+    ];
+
+    for (const [payload, error] of cases) {
+      const result = validate(createKey(payload));
+      assert.equal(result.valid, false, `accepted ${JSON.stringify(payload)}`);
+      assert.match(result.error, /^Malformed license payload: /);
+      assert.match(result.error, error);
+    }
+  });
+});
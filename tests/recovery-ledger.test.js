@@ -0,0 +1,40 @@
+const { describe, test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { RecoveryLedger } = require('../dist/services/RecoveryLedger');
+
+describe('RecoveryLedger', () => {
+  let directory;
+  let filepath;
+  let ledger;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'volume-bot-ledger-'));
+    filepath = path.join(directory, 'recovery-ledger.jsonl');
+    ledger = new RecoveryLedger(filepath);
+  });
+
+  afterEach(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  test('keeps entries appended after a partial line from a crash', async () => {
+    await ledger.append({ runId: 'run', type: 'run-started' });
+    await ledger.append({ runId: 'run', type: 'transaction', wallet: 'W1', step: 'transfer', status: 'sent', signature: 'S1' });
+    fs.appendFileSync(filepath, '{"runId":"run","type":"transaction","sig');
+
+    await ledger.append({ runId: 'run', type: 'transaction', wallet: 'W2', step: 'transfer', status: 'sent', signature: 'S2' });
+
+    const transactions = await ledger.getTransactions('run');
+    assert.deepEqual([...transactions.values()].map(entry => entry.signature).sort(), ['S1', 'S2']);
+    assert.equal(await ledger.findUnfinishedRun(), 'run');
+  });
+
+  test('does not add blank lines between intact entries', async () => {
+    await ledger.append({ runId: 'run', type: 'run-started' });
+    await ledger.append({ runId: 'run', type: 'run-completed' });
+
+    assert.equal(fs.readFileSync(filepath, 'utf-8').split('\n').filter(line => !line).length, 1);
+    assert.equal((await ledger.readEntries()).length, 2);
+  });
+});
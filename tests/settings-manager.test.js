@@ -0,0 +1,70 @@
+const { describe, test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { SettingsManager } = require('../dist/services/SettingsManager');
+
+describe('SettingsManager', () => {
+  let userDataDir;
+
+  beforeEach(() => {
+    userDataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'volume-bot-settings-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(userDataDir, { recursive: true, force: true });
+  });
+
+  test('defaults to mainnet and backups in the user-data directory', () => {
+    const settings = new SettingsManager(userDataDir);
+
+    assert.equal(settings.getCluster(), 'mainnet');
+    assert.equal(settings.getRpcUrl(), 'https://api.mainnet-beta.solana.com');
+    assert.equal(settings.getBackupDirectory(), path.join(userDataDir, 'wallet-backups'));
+  });
+
+  test('persists changes across instances', async () => {
+    const backupDirectory = path.join(userDataDir, 'elsewhere');
+    await new SettingsManager(userDataDir).update({ cluster: 'devnet', backupDirectory });
+
+    const reloaded = new SettingsManager(userDataDir);
+    assert.equal(reloaded.getCluster(), 'devnet');
+    assert.equal(reloaded.getRpcUrl(), 'https://api.devnet.solana.com');
+    assert.equal(reloaded.getBackupDirectory(), backupDirectory);
+    assert.ok(fs.existsSync(backupDirectory));
+  });
+
+  test('rejects unknown clusters and relative directories', async () => {
+    const settings = new SettingsManager(userDataDir);
+
+    await assert.rejects(settings.update({ cluster: 'testnet' }), /Unknown cluster "testnet"/);
+    await assert.rejects(settings.update({ backupDirectory: 'wallet-backups' }), /absolute path/);
+    assert.equal(settings.getCluster(), 'mainnet');
+  });
+
+  test('falls back to defaults for invalid stored values', () => {
+    fs.writeFileSync(path.join(userDataDir, 'settings.json'), JSON.stringify({ cluster: 'moon', backupDirectory: 42 }));
+
+    const settings = new SettingsManager(userDataDir);
+    assert.equal(settings.getCluster(), 'mainnet');
+    assert.equal(settings.getBackupDirectory(), path.join(userDataDir, 'wallet-backups'));
+  });
+
+  test('finds legacy backup folders until they are handled', async () => {
+    const legacyDir = path.join(userDataDir, 'old-cwd', 'wallet-backups');
+    const emptyDir = path.join(userDataDir, 'other-cwd', 'wallet-backups');
+    fs.mkdirSync(legacyDir, { recursive: true });
+    fs.mkdirSync(emptyDir, { recursive: true });
+    fs.writeFileSync(path.join(legacyDir, 'wallets-1700000000000.json'), '{}');
+    fs.writeFileSync(path.join(legacyDir, 'backup-manifest.json'), '{}');
+
+    const settings = new SettingsManager(userDataDir);
+    const candidates = [legacyDir, emptyDir, settings.getBackupDirectory(), path.join(userDataDir, 'missing')];
+
+    assert.deepEqual(await settings.findLegacyBackupLocations(candidates), [{ directory: legacyDir, backupFiles: 1 }]);
+
+    await settings.markLegacyDirectoryHandled(legacyDir);
+    assert.deepEqual(await new SettingsManager(userDataDir).findLegacyBackupLocations(candidates), []);
+  });
+});
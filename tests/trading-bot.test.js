@@ -0,0 +1,68 @@
+const { describe, test, beforeEach, afterEach, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const { Keypair, LAMPORTS_PER_SOL } = require('@solana/web3.js');
+const bs58 = require('bs58');
+const { WalletManager } = require('../dist/services/WalletManager');
+const { TradingBot } = require('../dist/services/TradingBot');
+const { LicenseManager } = require('../dist/services/LicenseManager');
+const { createBackupManager } = require('./helpers/backups');
+const { MockConnection } = require('./helpers/mock-connection');
+
+describe('TradingBot', () => {
+  let backupManager;
+  let cleanup;
+  let connection;
+  let walletManager;
+  let mainWallet;
+
+  beforeEach(async () => {
+    ({ backupManager, cleanup } = await createBackupManager());
+    connection = new MockConnection();
+    walletManager = new WalletManager(backupManager, connection);
+
+    const mainKeypair = Keypair.generate();
+    const { walletId } = await walletManager.importMainWallet(bs58.encode(mainKeypair.secretKey));
+    mainWallet = await backupManager.unlockSigner(walletId);
+    connection.fund(mainWallet.publicKey, LAMPORTS_PER_SOL);
+
+    // License checks are covered by their own tests
+    mock.method(LicenseManager, 'validateLicenseKey', () => ({ valid: true, remainingTime: '24h 0m' }));
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+    cleanup();
+  });
+
+  test('start after a recovery trades with fresh sub-wallets only', async () => {
+    const { wallets: previous } = await walletManager.createSubWallets(2);
+    const recovery = await walletManager.recoverAllFunds(mainWallet);
+    assert.deepEqual([...recovery.retiredWallets].sort(), previous.map(wallet => wallet.publicKey).sort());
+
+    // Keep the trading loop that start() schedules from running
+    mock.timers.enable({ apis: ['setTimeout'] });
+    const bot = new TradingBot(walletManager, backupManager);
+    const result = await bot.start({
+      tokenAddress: Keypair.generate().publicKey.toBase58(),
+      mainWallet,
+      numberOfSubWallets: 2,
+      buyAmount: 0.01,
+      sessionDuration: 0,
+      licenseKey: 'VB-test'
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(bot.getStats().activeWallets, 2);
+
+    for (const wallet of previous) {
+      assert.equal(connection.balanceOf(wallet.publicKey), 0, `retired wallet ${wallet.publicKey} was funded`);
+    }
+    const { subWallets } = await walletManager.getAllWallets();
+    const active = subWallets.filter(wallet => wallet.retiredAt === undefined);
+    assert.equal(active.length, 2);
+    for (const wallet of active) {
+      assert.ok(connection.balanceOf(wallet.publicKey) > 0, `new wallet ${wallet.publicKey} was not funded`);
+    }
+  });
+});
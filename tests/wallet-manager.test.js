@@ -0,0 +1,218 @@
+const { describe, test, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const { Keypair, LAMPORTS_PER_SOL } = require('@solana/web3.js');
+const { getAssociatedTokenAddressSync } = require('@solana/spl-token');
+const bs58 = require('bs58');
+const { WalletManager } = require('../dist/services/WalletManager');
+const { RecoveryLedger } = require('../dist/services/RecoveryLedger');
+const { createBackupManager } = require('./helpers/backups');
+const { MockConnection, SIGNATURE_FEE_LAMPORTS, TOKEN_ACCOUNT_RENT_LAMPORTS } = require('./helpers/mock-connection');
+
+describe('WalletManager', () => {
+  let backupManager;
+  let backupDir;
+  let cleanup;
+  let connection;
+  let walletManager;
+  let mainKeypair;
+
+  beforeEach(async () => {
+    ({ backupManager, backupDir, cleanup } = await createBackupManager());
+    connection = new MockConnection();
+    walletManager = new WalletManager(backupManager, connection);
+    mainKeypair = Keypair.generate();
+  });
+
+  afterEach(() => cleanup());
+
+  async function importMainWallet() {
+    const result = await walletManager.importMainWallet(bs58.encode(mainKeypair.secretKey));
+    assert.equal(result.success, true);
+    return backupManager.unlockSigner(result.walletId);
+  }
+
+  describe('wallets', () => {
+    test('importMainWallet stores the wallet once and rejects invalid keys', async () => {
+      const privateKey = bs58.encode(mainKeypair.secretKey);
+
+      assert.deepEqual(await walletManager.importMainWallet(privateKey), { success: true, walletId: mainKeypair.publicKey.toBase58() });
+      await walletManager.importMainWallet(privateKey);
+      assert.equal((await walletManager.getAllWallets()).mainWallets.length, 1);
+
+      const invalid = await walletManager.importMainWallet('not-a-key');
+      assert.equal(invalid.success, false);
+    });
+
+    test('createSubWallets backs up new wallets and reuses existing ones', async () => {
+      const first = await walletManager.createSubWallets(2);
+      assert.equal(first.success, true);
+      assert.equal(first.wallets.length, 2);
+      for (const wallet of first.wallets) {
+        assert.equal(Keypair.fromSecretKey(bs58.decode(wallet.privateKey)).publicKey.toBase58(), wallet.publicKey);
+      }
+
+      const again = await walletManager.createSubWallets(2);
+      assert.deepEqual(again.wallets.map(wallet => wallet.publicKey), first.wallets.map(wallet => wallet.publicKey));
+
+      const more = await walletManager.createSubWallets(3);
+      assert.equal(more.wallets.length, 3);
+      assert.deepEqual(more.wallets.map(wallet => wallet.index), [0, 1, 2]);
+      assert.equal((await walletManager.getAllWallets()).subWallets.length, 3);
+    });
+
+    test('createSubWallets announces new wallets without private keys', async () => {
+      const events = [];
+      walletManager.on('wallet-update', event => events.push(event));
+
+      const { wallets } = await walletManager.createSubWallets(2);
+
+      assert.equal(events.length, 1);
+      assert.deepEqual(events[0].subWallets.map(wallet => wallet.publicKey), wallets.map(wallet => wallet.publicKey));
+      assert.ok(events[0].subWallets.every(wallet => !('privateKey' in wallet)));
+    });
+
+    test('createSubWallets skips retired wallets', async () => {
+      const { wallets } = await walletManager.createSubWallets(2);
+      await backupManager.retireSubWallets([wallets[0].publicKey]);
+
+      const active = await walletManager.createSubWallets(2);
+      assert.equal(active.wallets.length, 2);
+      assert.ok(!active.wallets.some(wallet => wallet.publicKey === wallets[0].publicKey));
+      assert.deepEqual(active.wallets.map(wallet => wallet.index), [1, 2]);
+    });
+  });
+
+  describe('recovery', () => {
+    let mainWallet;
+    let subWallets;
+    let mint;
+
+    beforeEach(async () => {
+      mainWallet = await importMainWallet();
+      subWallets = (await walletManager.createSubWallets(3)).wallets;
+      mint = Keypair.generate().publicKey;
+
+      connection.fund(mainWallet.publicKey, LAMPORTS_PER_SOL);
+      // Funded wallet holding token dust, wallet with an empty token account, never-funded wallet
+      connection.fund(subWallets[0].publicKey, 0.05 * LAMPORTS_PER_SOL);
+      connection.addTokenAccount(subWallets[0].publicKey, mint, 1234);
+      connection.fund(subWallets[1].publicKey, 0.02 * LAMPORTS_PER_SOL);
+      connection.addTokenAccount(subWallets[1].publicKey, mint, 0);
+    });
+
+    test('planRecovery previews the sweep without sending anything', async () => {
+      const plan = await walletManager.planRecovery(mainWallet.publicKey.toBase58());
+
+      assert.equal(connection.sent.length, 0);
+      assert.equal(plan.totals.walletsToRecover, 2);
+      assert.equal(plan.totals.rentLeftBehind, 0);
+      assert.equal(plan.totals.solToMove, 0.07);
+      assert.equal(plan.totals.rentReclaimed, 2 * TOKEN_ACCOUNT_RENT_LAMPORTS / LAMPORTS_PER_SOL);
+
+      const [withDust, withEmptyAccount, unfunded] = plan.wallets;
+      assert.deepEqual(withDust.tokens.map(token => token.action), ['transfer']);
+      assert.deepEqual(withEmptyAccount.tokens.map(token => token.action), ['close']);
+      assert.equal(unfunded.status, 'skip');
+      // Two transactions with two signatures each, plus rent for the main wallet's new token account
+      assert.equal(withDust.estimatedFees, (4 * SIGNATURE_FEE_LAMPORTS + TOKEN_ACCOUNT_RENT_LAMPORTS) / LAMPORTS_PER_SOL);
+    });
+
+    test('recoverAllFunds empties every sub-wallet into the main wallet', async () => {
+      const mainBefore = connection.balanceOf(mainWallet.publicKey);
+
+      const result = await walletManager.recoverAllFunds(mainWallet);
+
+      assert.equal(result.success, true);
+      assert.equal(result.resumed, false);
+      assert.deepEqual(result.pendingWallets, []);
+      assert.equal(result.transactions.length, 4);
+      assert.equal(result.recoveredAmount, 0.07);
+
+      for (const wallet of subWallets) {
+        assert.equal(connection.balanceOf(wallet.publicKey), 0);
+        assert.deepEqual(connection.tokenAccountsOf(wallet.publicKey), []);
+      }
+
+      // The dust moved to the main wallet's token account; all other rent came back
+      const [mainTokenAccount] = connection.tokenAccountsOf(mainWallet.publicKey);
+      assert.equal(mainTokenAccount.amount, 1234n);
+      assert.equal(
+        connection.tokenAccounts.get(getAssociatedTokenAddressSync(mint, mainWallet.publicKey).toBase58()),
+        mainTokenAccount
+      );
+      const fees = 4 * 2 * SIGNATURE_FEE_LAMPORTS;
+      assert.equal(
+        connection.balanceOf(mainWallet.publicKey),
+        mainBefore + 0.07 * LAMPORTS_PER_SOL + 2 * TOKEN_ACCOUNT_RENT_LAMPORTS - TOKEN_ACCOUNT_RENT_LAMPORTS - fees
+      );
+
+      assert.deepEqual([...result.retiredWallets].sort(), subWallets.map(wallet => wallet.publicKey).sort());
+      const { subWallets: stored } = await walletManager.getAllWallets();
+      assert.ok(stored.every(wallet => typeof wallet.retiredAt === 'number'), 'sub-wallets were not retired');
+
+      const ledger = new RecoveryLedger(path.join(backupDir, 'recovery-ledger.jsonl'));
+      assert.equal(await ledger.findUnfinishedRun(), null);
+      const statuses = [...(await ledger.getTransactions(result.runId)).values()].map(entry => entry.status);
+      assert.deepEqual(statuses, ['confirmed', 'confirmed', 'confirmed', 'confirmed']);
+    });
+
+    test('recoverAllFunds still sweeps the SOL when a token account cannot be closed', async () => {
+      const stuckMint = Keypair.generate().publicKey;
+      const stuck = connection.addTokenAccount(subWallets[0].publicKey, stuckMint, 0);
+      connection.tokenAccounts.get(stuck.toBase58()).withheldFees = true;
+
+      const result = await walletManager.recoverAllFunds(mainWallet);
+
+      assert.equal(result.success, true);
+      assert.deepEqual(result.pendingWallets, []);
+      assert.equal(connection.balanceOf(subWallets[0].publicKey), 0);
+      // The other account in the failed batch was closed on its own
+      assert.deepEqual(connection.tokenAccountsOf(subWallets[0].publicKey).map(account => account.mint), [stuckMint.toBase58()]);
+      assert.equal(result.rentReclaimed, 2 * TOKEN_ACCOUNT_RENT_LAMPORTS / LAMPORTS_PER_SOL);
+
+      assert.ok(!result.retiredWallets.includes(subWallets[0].publicKey), 'wallet with an open token account was retired');
+      assert.deepEqual([...result.retiredWallets].sort(), [subWallets[1].publicKey, subWallets[2].publicKey].sort());
+    });
+
+    test('recoverAllFunds resumes an interrupted run without resending', async () => {
+      connection.dropConfirmations = true;
+      const interrupted = await walletManager.recoverAllFunds(mainWallet);
+
+      assert.equal(interrupted.success, true);
+      assert.equal(interrupted.pendingWallets.length, 2);
+      assert.deepEqual(interrupted.retiredWallets, [subWallets[2].publicKey]);
+      const sentBefore = connection.sent.length;
+
+      connection.dropConfirmations = false;
+      const resumed = await walletManager.recoverAllFunds(mainWallet);
+
+      assert.equal(resumed.success, true);
+      assert.equal(resumed.resumed, true);
+      assert.equal(resumed.runId, interrupted.runId);
+      assert.deepEqual(resumed.pendingWallets, []);
+      // Closing the token accounts landed before the connection dropped; only the SOL transfers remain
+      assert.equal(connection.sent.length, sentBefore + 2);
+      for (const wallet of subWallets) {
+        assert.equal(connection.balanceOf(wallet.publicKey), 0);
+      }
+      assert.equal(await new RecoveryLedger(path.join(backupDir, 'recovery-ledger.jsonl')).findUnfinishedRun(), null);
+    });
+
+    test('recoverAllFunds refuses to run without SOL for fees in the main wallet', async () => {
+      connection.lamports.delete(mainWallet.publicKey.toBase58());
+
+      const result = await walletManager.recoverAllFunds(mainWallet);
+      assert.equal(result.success, false);
+      assert.match(result.error, /pay the recovery transaction fees/);
+      assert.equal(connection.sent.length, 0);
+    });
+
+    test('recoverAllFunds refuses a locked main wallet', async () => {
+      backupManager.lock();
+
+      const result = await walletManager.recoverAllFunds(mainWallet);
+      assert.deepEqual(result, { success: false, error: 'Main wallet is locked' });
+    });
+  });
+});